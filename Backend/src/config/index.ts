@@ -1,10 +1,64 @@
 import dotenv from 'dotenv';
-import { EmailAccount } from '../types';
+import path from 'path';
+import { EmailAccount, SecurityMode, LLMProviderName, VectorStoreName, RetrievalMode } from '../types';
 
 dotenv.config();
 
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
 export const config = {
   port: process.env.PORT || 3000,
+  storage: {
+    dataDir
+  },
+  attachments: {
+    // Only 'local' (content-addressed files on disk) is built in
+    store: process.env.ATTACHMENT_STORE || 'local',
+    dir: process.env.ATTACHMENT_DIR || path.join(dataDir, 'blobs'),
+    // Larger attachments are stored but not text-extracted
+    maxExtractBytes: parseInt(process.env.ATTACHMENT_MAX_EXTRACT_BYTES || '20971520'),
+    maxTextLength: parseInt(process.env.ATTACHMENT_MAX_TEXT_LENGTH || '100000')
+  },
+  security: {
+    masterKey: process.env.MASTER_KEY || '',
+    // Outside production a key file in DATA_DIR stands in for MASTER_KEY
+    requireMasterKey: process.env.NODE_ENV === 'production'
+  },
+  oauth: {
+    redirectUri: process.env.OAUTH_REDIRECT_URI || 'http://localhost:3000/api/oauth/callback',
+    // Token refreshes happen this long before expiry
+    refreshSkewMs: 60000,
+    providers: {
+      google: {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+        authorizeUrl: process.env.GOOGLE_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+        scope: 'https://mail.google.com/',
+        imap: { host: 'imap.gmail.com', port: 993 },
+        smtp: { host: 'smtp.gmail.com', port: 465, secure: true, saveToSent: false }
+      },
+      microsoft: {
+        clientId: process.env.MICROSOFT_CLIENT_ID || '',
+        clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
+        authorizeUrl: process.env.MICROSOFT_AUTHORIZE_URL
+          || `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT || 'common'}/oauth2/v2.0/authorize`,
+        tokenUrl: process.env.MICROSOFT_TOKEN_URL
+          || `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT || 'common'}/oauth2/v2.0/token`,
+        scope: 'offline_access https://outlook.office.com/IMAP.AccessAsUser.All https://outlook.office.com/SMTP.Send',
+        imap: { host: 'outlook.office365.com', port: 993 },
+        smtp: { host: 'smtp.office365.com', port: 587, secure: false, saveToSent: false }
+      }
+    }
+  },
+  imap: {
+    pollIntervalMs: parseInt(process.env.IMAP_POLL_INTERVAL_MS || '15000'),
+    maxIdleTimeMs: parseInt(process.env.IMAP_MAX_IDLE_TIME_MS || '300000'),
+    reconnectBaseMs: parseInt(process.env.IMAP_RECONNECT_BASE_MS || '1000'),
+    reconnectMaxMs: parseInt(process.env.IMAP_RECONNECT_MAX_MS || '300000'),
+    // Servers without CONDSTORE get a full flag rescan at most this often per folder
+    flagRescanIntervalMs: parseInt(process.env.IMAP_FLAG_RESCAN_INTERVAL_MS || '300000')
+  },
   elasticsearch: {
     node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200',
     index: 'emails'
@@ -13,11 +67,105 @@ export const config = {
     webhookUrl: process.env.SLACK_WEBHOOK_URL || ''
   },
   webhook: {
-    url: process.env.WEBHOOK_URL || ''
+    url: process.env.WEBHOOK_URL || '',
+    // Webhook subscriptions (see WebhookService)
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+    // Finished deliveries (delivered or dead) are kept this long in the delivery log
+    retentionMs: parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_MS || '604800000')
+  },
+  notifications: {
+    // Per route; a route's own throttle overrides these (limit 0 turns throttling off)
+    throttleLimit: parseInt(process.env.NOTIFICATIONS_THROTTLE_LIMIT || '10'),
+    throttleWindowMinutes: parseInt(process.env.NOTIFICATIONS_THROTTLE_WINDOW_MINUTES || '10'),
+    // How long sent notifications are remembered so the same email never notifies a route twice
+    dedupeRetentionDays: parseInt(process.env.NOTIFICATIONS_DEDUPE_RETENTION_DAYS || '60')
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || ''
   },
+  llm: {
+    // openai, local (any OpenAI-compatible server such as Ollama or llama.cpp) or fake
+    provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_API_KEY || '',
+    chatModel: process.env.LLM_CHAT_MODEL || 'gpt-4o-mini',
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || 'text-embedding-ada-002',
+    // Must match the vector index; ada-002 produces 1536 dimensions
+    embeddingDimension: parseInt(process.env.LLM_EMBEDDING_DIMENSION || '1536'),
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000'),
+    categorization: {
+      temperature: parseFloat(process.env.LLM_CATEGORIZATION_TEMPERATURE || '0.3'),
+      maxTokens: parseInt(process.env.LLM_CATEGORIZATION_MAX_TOKENS || '300')
+    },
+    // Human-labelled emails shown to the model when categorizing similar ones
+    fewShot: {
+      examples: parseInt(process.env.LLM_FEW_SHOT_EXAMPLES || '3'),
+      minScore: parseFloat(process.env.LLM_FEW_SHOT_MIN_SCORE || '0.75')
+    },
+    // AI categorizations below this confidence are listed in the review queue
+    reviewThreshold: parseFloat(process.env.LLM_REVIEW_CONFIDENCE_THRESHOLD || '0.6'),
+    reply: {
+      temperature: parseFloat(process.env.LLM_REPLY_TEMPERATURE || '0.7'),
+      maxTokens: parseInt(process.env.LLM_REPLY_MAX_TOKENS || '500')
+    }
+  },
+  jobs: {
+    pollIntervalMs: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '1000'),
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '5'),
+    // Exponential backoff: base * 2^(attempt - 1), capped
+    backoffBaseMs: parseInt(process.env.JOBS_BACKOFF_BASE_MS || '2000'),
+    backoffMaxMs: parseInt(process.env.JOBS_BACKOFF_MAX_MS || '600000'),
+    // Completed jobs are kept this long, up to maxCompleted of them, for GET /api/jobs
+    retentionMs: parseInt(process.env.JOBS_RETENTION_MS || '3600000'),
+    maxCompleted: parseInt(process.env.JOBS_MAX_COMPLETED || '500'),
+    categorize: {
+      concurrency: parseInt(process.env.JOBS_CATEGORIZE_CONCURRENCY || '2'),
+      ratePerMinute: parseInt(process.env.JOBS_CATEGORIZE_RATE_PER_MINUTE || '60')
+    },
+    notify: {
+      concurrency: parseInt(process.env.JOBS_NOTIFY_CONCURRENCY || '2'),
+      ratePerMinute: parseInt(process.env.JOBS_NOTIFY_RATE_PER_MINUTE || '30')
+    },
+    webhook: {
+      concurrency: parseInt(process.env.JOBS_WEBHOOK_CONCURRENCY || '4'),
+      ratePerMinute: parseInt(process.env.JOBS_WEBHOOK_RATE_PER_MINUTE || '120')
+    }
+  },
+  rag: {
+    // vector, or hybrid: vector similarity combined with BM25 keyword scores
+    mode: (process.env.RAG_RETRIEVAL_MODE || 'vector') as RetrievalMode,
+    topK: parseInt(process.env.RAG_TOP_K || '3'),
+    maxTopK: 20,
+    minScore: parseFloat(process.env.RAG_MIN_SCORE || '0.7'),
+    // Share of the vector score in hybrid scores; the rest is the keyword score
+    hybridVectorWeight: parseFloat(process.env.RAG_HYBRID_VECTOR_WEIGHT || '0.7'),
+    // minScore for the blended hybrid score: 0.4 takes e.g. vector 0.58 alone, or vector 0.15 plus the best keyword match
+    hybridMinScore: parseFloat(process.env.RAG_HYBRID_MIN_SCORE || '0.4')
+  },
+  drafts: {
+    maxAlternatives: parseInt(process.env.DRAFTS_MAX_ALTERNATIVES || '5'),
+    // Earlier thread messages and earlier emails from the sender in the prompt
+    threadMessages: parseInt(process.env.DRAFTS_THREAD_MESSAGES || '20'),
+    senderMessages: parseInt(process.env.DRAFTS_SENDER_MESSAGES || '5'),
+    // Message bodies are cut to this many characters
+    messageCharacters: parseInt(process.env.DRAFTS_MESSAGE_CHARACTERS || '2000')
+  },
+  knowledge: {
+    // Characters per chunk and shared between neighbouring chunks
+    chunkSize: parseInt(process.env.KNOWLEDGE_CHUNK_SIZE || '1000'),
+    chunkOverlap: parseInt(process.env.KNOWLEDGE_CHUNK_OVERLAP || '200'),
+    // Longer documents are truncated
+    maxCharacters: parseInt(process.env.KNOWLEDGE_MAX_CHARACTERS || '500000'),
+    // JSON request body limit; uploads are base64, a third larger than the file
+    maxUploadBytes: process.env.KNOWLEDGE_MAX_UPLOAD_BYTES || '20mb'
+  },
+  vectorStore: {
+    // pinecone, elasticsearch (dense_vector kNN in the cluster above) or local (embedded, in DATA_DIR);
+    // defaults to Pinecone when it's configured
+    provider: (process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? 'pinecone' : 'local')) as VectorStoreName,
+    elasticsearchIndex: process.env.VECTOR_STORE_ES_INDEX || 'knowledge-vectors'
+  },
   pinecone: {
     apiKey: process.env.PINECONE_API_KEY || '',
     environment: process.env.PINECONE_ENVIRONMENT || '',
@@ -32,7 +180,17 @@ export const emailAccounts: EmailAccount[] = [
     password: process.env.EMAIL1_PASSWORD || '',
     host: process.env.EMAIL1_HOST || 'imap.gmail.com',
     port: parseInt(process.env.EMAIL1_PORT || '993'),
-    name: 'Account 1'
+    connection: {
+      security: (process.env.EMAIL1_SECURITY || 'tls') as SecurityMode
+    },
+    name: 'Account 1',
+    folders: (process.env.EMAIL1_FOLDERS || 'INBOX').split(',').map(folder => folder.trim()).filter(Boolean),
+    smtp: {
+      host: process.env.EMAIL1_SMTP_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.EMAIL1_SMTP_PORT || '465'),
+      secure: process.env.EMAIL1_SMTP_SECURE !== 'false',
+      saveToSent: process.env.EMAIL1_SMTP_SAVE_SENT !== 'false'
+    }
   },
   {
     id: 'account-2',
@@ -40,6 +198,16 @@ export const emailAccounts: EmailAccount[] = [
     password: process.env.EMAIL2_PASSWORD || '',
     host: process.env.EMAIL2_HOST || 'imap.gmail.com',
     port: parseInt(process.env.EMAIL2_PORT || '993'),
-    name: 'Account 2'
+    connection: {
+      security: (process.env.EMAIL2_SECURITY || 'tls') as SecurityMode
+    },
+    name: 'Account 2',
+    folders: (process.env.EMAIL2_FOLDERS || 'INBOX').split(',').map(folder => folder.trim()).filter(Boolean),
+    smtp: {
+      host: process.env.EMAIL2_SMTP_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.EMAIL2_SMTP_PORT || '465'),
+      secure: process.env.EMAIL2_SMTP_SECURE !== 'false',
+      saveToSent: process.env.EMAIL2_SMTP_SAVE_SENT !== 'false'
+    }
   }
 ];
\ No newline at end of file
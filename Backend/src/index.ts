@@ -7,7 +7,36 @@ import { AIService } from './services/ai.service';
 import { NotificationService } from './services/notification.services';
 import { EmailSyncService } from './services/emailSync.service';
 import { VectorService } from './services/vector.service';
+import { createVectorStore } from './services/vectorStore.service';
+import { SyncStateService } from './services/syncState.service';
+import { AccountService } from './services/account.service';
+import { OAuthService } from './services/oauth.service';
+import { AttachmentService } from './services/attachment.service';
+import { createBlobStore } from './services/blobStore.service';
+import { ThreadService } from './services/thread.service';
 import { createEmailRoutes } from './routes/email.routes';
+import { createAccountRoutes } from './routes/account.routes';
+import { createOAuthRoutes } from './routes/oauth.routes';
+import { createThreadRoutes } from './routes/thread.routes';
+import { createLLMProvider } from './services/llm.service';
+import { RuleService } from './services/rule.service';
+import { createRuleRoutes } from './routes/rule.routes';
+import { CategoryService } from './services/category.service';
+import { createCategoryRoutes } from './routes/category.routes';
+import { FeedbackService } from './services/feedback.service';
+import { createFeedbackRoutes } from './routes/feedback.routes';
+import { createReviewRoutes } from './routes/review.routes';
+import { JobQueueService } from './services/jobQueue.service';
+import { createJobRoutes } from './routes/job.routes';
+import { NotificationRouteService } from './services/notificationRoute.service';
+import { createNotificationRoutes } from './routes/notification.routes';
+import { WebhookService } from './services/webhook.service';
+import { createWebhookRoutes } from './routes/webhook.routes';
+import { KnowledgeService } from './services/knowledge.service';
+import { createKnowledgeRoutes } from './routes/knowledge.routes';
+import { DraftService } from './services/draft.service';
+import { createDraftRoutes } from './routes/draft.routes';
+import { ReplyPipeline } from './services/replyPipeline.service';
 
 class OneboxServer {
   private app: express.Application;
@@ -16,18 +45,64 @@ class OneboxServer {
   private notificationService: NotificationService;
   private emailSyncService: EmailSyncService;
   private vectorService: VectorService;
+  private syncStateService: SyncStateService;
+  private accountService: AccountService;
+  private oauthService: OAuthService;
+  private attachmentService: AttachmentService;
+  private threadService: ThreadService;
+  private ruleService: RuleService;
+  private categoryService: CategoryService;
+  private feedbackService: FeedbackService;
+  private jobQueue: JobQueueService;
+  private notificationRouteService: NotificationRouteService;
+  private webhookService: WebhookService;
+  private knowledgeService: KnowledgeService;
+  private replyPipeline: ReplyPipeline;
+  private draftService: DraftService;
 
   constructor() {
     this.app = express();
     this.elasticsearchService = new ElasticsearchService();
-    this.aiService = new AIService();
+    const llm = createLLMProvider();
+    this.ruleService = new RuleService(this.elasticsearchService);
+    this.feedbackService = new FeedbackService(llm);
+    this.notificationRouteService = new NotificationRouteService();
+    this.categoryService = new CategoryService(
+      this.elasticsearchService,
+      this.ruleService,
+      this.feedbackService,
+      this.notificationRouteService
+    );
+    this.aiService = new AIService(llm, this.categoryService, this.feedbackService);
     this.notificationService = new NotificationService();
+    this.syncStateService = new SyncStateService();
+    this.accountService = new AccountService();
+    this.oauthService = new OAuthService(this.accountService);
+    this.attachmentService = new AttachmentService(createBlobStore());
+    this.jobQueue = new JobQueueService();
+    this.webhookService = new WebhookService(this.jobQueue);
+    this.threadService = new ThreadService(this.elasticsearchService, this.accountService);
     this.emailSyncService = new EmailSyncService(
       this.elasticsearchService,
       this.aiService,
-      this.notificationService
+      this.notificationService,
+      this.syncStateService,
+      this.oauthService,
+      this.attachmentService,
+      this.threadService,
+      this.ruleService,
+      this.categoryService,
+      this.feedbackService,
+      this.jobQueue,
+      this.notificationRouteService,
+      this.webhookService
     );
-    this.vectorService = new VectorService();
+    // Replies query the chunks the knowledge base stores
+    const vectorStore = createVectorStore(llm.embeddingDimension);
+    this.knowledgeService = new KnowledgeService(llm, vectorStore);
+    this.vectorService = new VectorService(llm, vectorStore, this.knowledgeService);
+    this.replyPipeline = new ReplyPipeline(llm, this.vectorService);
+    this.draftService = new DraftService(this.elasticsearchService, this.accountService, this.replyPipeline);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -35,6 +110,8 @@ class OneboxServer {
 
   private setupMiddleware(): void {
     this.app.use(cors());
+    // Knowledge base uploads are base64 in JSON bodies; everything else keeps the default limit
+    this.app.use('/api/knowledge/documents', bodyParser.json({ limit: config.knowledge.maxUploadBytes }));
     this.app.use(bodyParser.json());
     this.app.use(bodyParser.urlencoded({ extended: true }));
 
@@ -49,11 +126,36 @@ class OneboxServer {
     const emailRoutes = createEmailRoutes(
       this.elasticsearchService,
       this.emailSyncService,
-      this.vectorService,
-      this.aiService
+      this.replyPipeline,
+      this.attachmentService,
+      this.categoryService
+    );
+
+    const accountRoutes = createAccountRoutes(
+      this.accountService,
+      this.emailSyncService,
+      this.elasticsearchService
     );
 
     this.app.use('/api', emailRoutes);
+    const oauthRoutes = createOAuthRoutes(
+      this.accountService,
+      this.emailSyncService,
+      this.oauthService
+    );
+
+    this.app.use('/api', accountRoutes);
+    this.app.use('/api', oauthRoutes);
+    this.app.use('/api', createThreadRoutes(this.threadService));
+    this.app.use('/api', createRuleRoutes(this.ruleService, this.categoryService));
+    this.app.use('/api', createCategoryRoutes(this.categoryService, this.ruleService));
+    this.app.use('/api', createFeedbackRoutes(this.feedbackService));
+    this.app.use('/api', createReviewRoutes(this.elasticsearchService, this.emailSyncService, this.categoryService));
+    this.app.use('/api', createJobRoutes(this.jobQueue));
+    this.app.use('/api', createNotificationRoutes(this.notificationRouteService, this.categoryService, this.emailSyncService));
+    this.app.use('/api', createWebhookRoutes(this.webhookService));
+    this.app.use('/api', createKnowledgeRoutes(this.knowledgeService));
+    this.app.use('/api', createDraftRoutes(this.elasticsearchService, this.draftService));
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -67,7 +169,27 @@ class OneboxServer {
           stats: '/api/emails/stats/categories',
           productContext: '/api/context/product',
           outreachAgenda: '/api/context/agenda',
-          suggestReply: '/api/emails/:id/suggest-reply'
+          knowledgeDocuments: '/api/knowledge/documents',
+          suggestReply: '/api/emails/:id/suggest-reply',
+          drafts: '/api/emails/:id/drafts',
+          draft: '/api/drafts/:id',
+          reply: '/api/emails/:id/reply',
+          updateEmail: '/api/emails/:id',
+          attachment: '/api/emails/:id/attachments/:index',
+          threads: '/api/threads',
+          rules: '/api/rules',
+          categories: '/api/categories',
+          setCategory: '/api/emails/:id/category',
+          feedbackExamples: '/api/feedback/examples',
+          accuracy: '/api/feedback/accuracy',
+          reviewQueue: '/api/review-queue',
+          jobs: '/api/jobs',
+          notificationRoutes: '/api/notifications/routes',
+          webhooks: '/api/webhooks',
+          webhookDeliveries: '/api/webhooks/deliveries',
+          accounts: '/api/accounts',
+          folders: '/api/accounts/:id/folders',
+          oauthAuthorize: '/api/oauth/:provider/authorize'
         }
       });
     });
@@ -82,17 +204,20 @@ class OneboxServer {
       console.log('\n Initializing Elasticsearch...');
       await this.elasticsearchService.initialize();
 
-      // Initialize Vector Database (optional - only if Pinecone is configured)
-      if (config.pinecone.apiKey) {
-        console.log('\n Initializing Vector Database...');
-        await this.vectorService.initialize();
-      } else {
-        console.log('\n  Pinecone not configured - RAG features will be unavailable');
-      }
+      // Initialize the vector store for RAG (Pinecone, Elasticsearch or local)
+      console.log(`\n Initializing Vector Database (${config.vectorStore.provider})...`);
+      await this.vectorService.initialize();
+
+      // Resume background jobs left over from the last run
+      console.log('\n Starting job queue...');
+      await this.jobQueue.start();
+      await this.emailSyncService.requeueUncategorizedEmails();
 
-      // Initialize email accounts
+      // Initialize email accounts (env accounts are imported into the account store once)
       console.log('\n📧 Initializing Email Accounts...');
-      await this.emailSyncService.initializeAccounts(emailAccounts);
+      await this.accountService.importAccounts(emailAccounts);
+      const accounts = await this.accountService.listAccounts();
+      await this.emailSyncService.initializeAccounts(accounts.filter(account => !account.paused));
 
       console.log('\n' + '='.repeat(50));
       console.log(' Backend initialized successfully!');
@@ -114,6 +239,8 @@ class OneboxServer {
 
   async shutdown(): Promise<void> {
     console.log('\n🛑 Shutting down server...');
+    // Jobs still running are picked up again on the next start
+    this.jobQueue.stop();
     await this.emailSyncService.shutdown();
     console.log('✅ Server shut down successfully');
     process.exit(0);
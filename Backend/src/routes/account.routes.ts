@@ -0,0 +1,383 @@
+import { Router, Request, Response } from 'express';
+import { AccountService } from '../services/account.service';
+import { EmailSyncService } from '../services/emailSync.service';
+import { ElasticsearchService } from '../services/elasticsearch.service';
+import { AccountInput, AccountSummary, ManagedAccount } from '../types';
+import { conflictingTlsSettings } from '../utils/tls';
+
+const EDITABLE_FIELDS: Array<keyof AccountInput> = [
+  'user', 'password', 'host', 'port', 'name', 'authType', 'oauth2', 'connection', 'folders', 'smtp'
+];
+
+const SECURITY_MODES = ['tls', 'starttls', 'none'];
+const TIMEOUT_FIELDS = ['connectionTimeoutMs', 'greetingTimeoutMs', 'socketTimeoutMs'] as const;
+
+function pickAccountInput(body: any): Partial<AccountInput> {
+  const input: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+  if (input.port !== undefined) {
+    input.port = parseInt(input.port);
+  }
+  return input;
+}
+
+function validateAccountInput(input: Partial<AccountInput>, partial: boolean): string | null {
+  const isOAuth = input.authType === 'oauth2';
+  const required: Array<keyof AccountInput> = isOAuth ? ['user', 'host', 'port'] : ['user', 'password', 'host', 'port'];
+
+  for (const field of required) {
+    if (!partial && !input[field]) {
+      return `${field} is required`;
+    }
+  }
+  if (input.authType !== undefined && input.authType !== 'password' && !isOAuth) {
+    return 'authType must be password or oauth2';
+  }
+  if (isOAuth && (!input.oauth2 || !input.oauth2.provider || !(input.oauth2.refreshToken || input.oauth2.accessToken))) {
+    return 'oauth2 requires provider and a refresh or access token';
+  }
+  if (input.port !== undefined && (isNaN(input.port) || input.port <= 0)) {
+    return 'port must be a positive number';
+  }
+  if (input.connection !== undefined) {
+    const { security } = input.connection;
+    if (security !== undefined && !SECURITY_MODES.includes(security)) {
+      return `connection.security must be one of ${SECURITY_MODES.join(', ')}`;
+    }
+    for (const field of TIMEOUT_FIELDS) {
+      const value = input.connection[field];
+      if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+        return `connection.${field} must be a positive number`;
+      }
+    }
+    const tlsConflict = conflictingTlsSettings(input.connection);
+    if (tlsConflict) {
+      return tlsConflict;
+    }
+  }
+  if (input.folders !== undefined && !Array.isArray(input.folders)) {
+    return 'folders must be an array';
+  }
+  if (input.smtp !== undefined && (!input.smtp.host || !input.smtp.port)) {
+    return 'smtp requires host and port';
+  }
+  if (input.smtp?.security !== undefined && !SECURITY_MODES.includes(input.smtp.security)) {
+    return `smtp.security must be one of ${SECURITY_MODES.join(', ')}`;
+  }
+  return null;
+}
+
+export function createAccountRoutes(
+  accountService: AccountService,
+  emailSyncService: EmailSyncService,
+  elasticsearchService: ElasticsearchService
+): Router {
+  const router = Router();
+
+  const toSummary = (account: ManagedAccount): AccountSummary => {
+    const { password, oauth2, ...rest } = account;
+    const { status, error } = account.paused
+      ? { status: 'paused' as const, error: undefined }
+      : emailSyncService.getAccountStatus(account.id);
+
+    // Tokens never leave the server
+    return {
+      ...rest,
+      oauth2: oauth2 && { provider: oauth2.provider, expiresAt: oauth2.expiresAt },
+      status,
+      lastError: error
+    };
+  };
+
+  // Accounts connect and sync in the background; the response doesn't wait for the backlog
+  const startInBackground = (account: ManagedAccount) => {
+    emailSyncService.startAccount(account).catch(error => {
+      console.error(` Failed to start account ${account.user}:`, error);
+    });
+  };
+
+  // List accounts
+  router.get('/accounts', async (req: Request, res: Response) => {
+    try {
+      const accounts = await accountService.listAccounts();
+
+      res.json({
+        success: true,
+        data: accounts.map(toSummary)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Add an account and start syncing it
+  router.post('/accounts', async (req: Request, res: Response) => {
+    try {
+      const input = pickAccountInput(req.body);
+      const validationError = validateAccountInput(input, false);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const account = await accountService.createAccount({
+        ...input,
+        name: input.name || input.user
+      } as AccountInput);
+      startInBackground(account);
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created',
+        data: toSummary(account)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Test credentials without storing them
+  router.post('/accounts/test', async (req: Request, res: Response) => {
+    try {
+      const input = pickAccountInput(req.body);
+      const validationError = validateAccountInput(input, false);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const result = await emailSyncService.testAccount({
+        ...input,
+        id: 'connection-test',
+        name: input.name || input.user
+      } as ManagedAccount);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single account
+  router.get('/accounts/:id', async (req: Request, res: Response) => {
+    try {
+      const account = await accountService.getAccount(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: toSummary(account)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Update an account; a running account is restarted with the new settings
+  router.patch('/accounts/:id', async (req: Request, res: Response) => {
+    try {
+      const input = pickAccountInput(req.body);
+      const validationError = validateAccountInput(input, true);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const account = await accountService.updateAccount(req.params.id, input);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      if (!account.paused) {
+        startInBackground(account);
+      }
+
+      res.json({
+        success: true,
+        message: 'Account updated',
+        data: toSummary(account)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Test a stored account's IMAP/SMTP connection
+  router.post('/accounts/:id/test', async (req: Request, res: Response) => {
+    try {
+      const account = await accountService.getAccount(req.params.id);
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      const result = await emailSyncService.testAccount(account);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Pause syncing
+  router.post('/accounts/:id/pause', async (req: Request, res: Response) => {
+    try {
+      const account = await accountService.updateAccount(req.params.id, { paused: true });
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      await emailSyncService.stopAccount(account.id);
+
+      res.json({
+        success: true,
+        message: 'Account paused',
+        data: toSummary(account)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Resume syncing
+  router.post('/accounts/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const account = await accountService.updateAccount(req.params.id, { paused: false });
+
+      if (!account) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      startInBackground(account);
+
+      res.json({
+        success: true,
+        message: 'Account resumed',
+        data: toSummary(account)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Remove an account; ?purge=true also deletes its indexed emails
+  router.delete('/accounts/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await accountService.deleteAccount(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found'
+        });
+      }
+
+      await emailSyncService.removeAccount(req.params.id);
+
+      if (req.query.purge === 'true') {
+        await elasticsearchService.deleteEmailsByAccount(req.params.id);
+      }
+
+      res.json({
+        success: true,
+        message: 'Account removed'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // List mailboxes for an account with message counts
+  router.get('/accounts/:id/folders', async (req: Request, res: Response) => {
+    try {
+      const imapService = emailSyncService.getImapService(req.params.id);
+
+      if (!imapService) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or not connected'
+        });
+      }
+
+      const folders = await imapService.listFolders();
+
+      res.json({
+        success: true,
+        data: folders
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
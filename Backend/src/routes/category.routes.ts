@@ -0,0 +1,228 @@
+import { Router, Request, Response } from 'express';
+import { CategoryService, FALLBACK_CATEGORY } from '../services/category.service';
+import { RuleService } from '../services/rule.service';
+import { CategoryInput } from '../types';
+
+const EDITABLE_FIELDS: Array<keyof CategoryInput> = ['name', 'description', 'color', 'notify'];
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function pickCategoryInput(body: any): Partial<CategoryInput> {
+  const input: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+  if (typeof input.name === 'string') {
+    input.name = input.name.trim();
+  }
+  return input;
+}
+
+function validateCategoryInput(input: Partial<CategoryInput>, partial: boolean): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name) {
+      return 'name is required';
+    }
+  }
+  if (!partial || input.description !== undefined) {
+    if (typeof input.description !== 'string' || !input.description.trim()) {
+      return 'description is required; it tells the AI when to use the category';
+    }
+  }
+  if (input.color !== undefined && (typeof input.color !== 'string' || !COLOR_PATTERN.test(input.color))) {
+    return 'color must be a hex color like #1565c0';
+  }
+  if (input.notify !== undefined && typeof input.notify !== 'boolean') {
+    return 'notify must be a boolean';
+  }
+  return null;
+}
+
+export function createCategoryRoutes(categoryService: CategoryService, ruleService: RuleService): Router {
+  const router = Router();
+
+  // Returns an error message if another category already uses the name
+  const nameConflict = async (name: string | undefined, id?: string): Promise<string | null> => {
+    if (!name) return null;
+    const existing = await categoryService.findByName(name);
+    return existing && existing.id !== id ? `A category named ${existing.name} already exists` : null;
+  };
+
+  // List categories
+  router.get('/categories', async (req: Request, res: Response) => {
+    try {
+      const categories = await categoryService.listCategories();
+
+      res.json({
+        success: true,
+        data: categories
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Create a category
+  router.post('/categories', async (req: Request, res: Response) => {
+    try {
+      const input = pickCategoryInput(req.body);
+      const validationError = validateCategoryInput(input, false);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const conflict = await nameConflict(input.name);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          error: conflict
+        });
+      }
+
+      const category = await categoryService.createCategory({
+        color: '#607d8b',
+        notify: false,
+        ...input
+      } as CategoryInput);
+
+      res.status(201).json({
+        success: true,
+        message: 'Category created',
+        data: category
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single category
+  router.get('/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const category = await categoryService.getCategory(req.params.id);
+
+      if (!category) {
+        return res.status(404).json({
+          success: false,
+          error: 'Category not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: category
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Update a category; renaming relabels its emails and rules
+  router.patch('/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const input = pickCategoryInput(req.body);
+      const validationError = validateCategoryInput(input, true);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const current = await categoryService.getCategory(req.params.id);
+
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Category not found'
+        });
+      }
+
+      if (current.name === FALLBACK_CATEGORY && input.name !== undefined && input.name !== current.name) {
+        return res.status(400).json({
+          success: false,
+          error: `${FALLBACK_CATEGORY} can't be renamed`
+        });
+      }
+
+      const conflict = await nameConflict(input.name, current.id);
+      if (conflict) {
+        return res.status(409).json({
+          success: false,
+          error: conflict
+        });
+      }
+
+      const category = await categoryService.updateCategory(req.params.id, input);
+
+      res.json({
+        success: true,
+        message: 'Category updated',
+        data: category
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a category; its emails become Uncategorized
+  router.delete('/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const category = await categoryService.getCategory(req.params.id);
+
+      if (!category) {
+        return res.status(404).json({
+          success: false,
+          error: 'Category not found'
+        });
+      }
+
+      if (category.name === FALLBACK_CATEGORY) {
+        return res.status(400).json({
+          success: false,
+          error: `${FALLBACK_CATEGORY} can't be deleted`
+        });
+      }
+
+      const rules = await ruleService.listRulesForCategory(category.name);
+      if (rules.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Category is assigned by rules: ${rules.map(rule => rule.name).join(', ')}`
+        });
+      }
+
+      await categoryService.deleteCategory(category.id);
+
+      res.json({
+        success: true,
+        message: 'Category deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
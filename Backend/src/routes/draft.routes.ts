@@ -0,0 +1,275 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config';
+import { ElasticsearchService } from '../services/elasticsearch.service';
+import { DraftService } from '../services/draft.service';
+import { parseRetrievalOptions } from './email.routes';
+import { DraftOptions, ReplyLength, ReplyTone } from '../types';
+
+const TONES: ReplyTone[] = ['formal', 'casual'];
+
+const LENGTHS: ReplyLength[] = ['short', 'medium', 'long'];
+
+const MAX_LANGUAGE_LENGTH = 40;
+
+function validateDraftOptions(input: Partial<DraftOptions>): string | null {
+  if (input.tone !== undefined && !TONES.includes(input.tone)) {
+    return `tone must be one of ${TONES.join(', ')}`;
+  }
+  if (input.length !== undefined && !LENGTHS.includes(input.length)) {
+    return `length must be one of ${LENGTHS.join(', ')}`;
+  }
+  if (input.language !== undefined
+    && (typeof input.language !== 'string' || !input.language.trim() || input.language.length > MAX_LANGUAGE_LENGTH)) {
+    return 'language must be a language name or code such as German or de, or auto';
+  }
+  return null;
+}
+
+export function createDraftRoutes(
+  elasticsearchService: ElasticsearchService,
+  draftService: DraftService
+): Router {
+  const router = Router();
+
+  // Generate reply drafts from the thread, the sender's history and the knowledge base
+  router.post('/emails/:id/drafts', async (req: Request, res: Response) => {
+    try {
+      const { tone, length, language, count, retrieval } = req.body || {};
+      const validationError = validateDraftOptions({ tone, length, language });
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const { maxAlternatives } = config.drafts;
+      if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > maxAlternatives)) {
+        return res.status(400).json({
+          success: false,
+          error: `count must be an integer from 1 to ${maxAlternatives}`
+        });
+      }
+
+      const retrievalOptions = parseRetrievalOptions(retrieval);
+
+      if (typeof retrievalOptions === 'string') {
+        return res.status(400).json({
+          success: false,
+          error: `retrieval: ${retrievalOptions}`
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const drafts = await draftService.generateDrafts(email, {
+        tone,
+        length,
+        language: language?.trim(),
+        count,
+        retrieval: retrievalOptions
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `${drafts.length} drafts generated`,
+        data: drafts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // List the drafts for an email
+  router.get('/emails/:id/drafts', async (req: Request, res: Response) => {
+    try {
+      const drafts = await draftService.listDrafts(req.params.id);
+
+      res.json({
+        success: true,
+        data: drafts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a draft with its revisions
+  router.get('/drafts/:id', async (req: Request, res: Response) => {
+    try {
+      const draft = await draftService.getDraft(req.params.id);
+
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          error: 'Draft not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: draft
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Edit a draft's subject and/or body by hand; the body is re-checked for placeholders, PII and length
+  router.patch('/drafts/:id', async (req: Request, res: Response) => {
+    try {
+      const { subject, body } = req.body || {};
+
+      if (subject === undefined && body === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide subject and/or body'
+        });
+      }
+      if ((subject !== undefined && (typeof subject !== 'string' || !subject.trim()))
+        || (body !== undefined && (typeof body !== 'string' || !body.trim()))) {
+        return res.status(400).json({
+          success: false,
+          error: 'subject and body must be non-empty strings'
+        });
+      }
+
+      const draft = await draftService.getDraft(req.params.id);
+
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          error: 'Draft not found'
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(draft.emailId);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const updated = await draftService.editDraft(draft.id, email, { subject, body });
+
+      res.json({
+        success: true,
+        message: 'Draft updated',
+        data: updated
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Have the model rewrite a draft with instructions and/or other options
+  router.post('/drafts/:id/revise', async (req: Request, res: Response) => {
+    try {
+      const { instructions, tone, length, language } = req.body || {};
+      const validationError = validateDraftOptions({ tone, length, language });
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+      if (instructions !== undefined && (typeof instructions !== 'string' || !instructions.trim())) {
+        return res.status(400).json({
+          success: false,
+          error: 'instructions must be a non-empty string'
+        });
+      }
+      if (!instructions && !tone && !length && !language) {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide instructions, tone, length or language'
+        });
+      }
+
+      const draft = await draftService.getDraft(req.params.id);
+
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          error: 'Draft not found'
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(draft.emailId);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const revised = await draftService.reviseDraft(draft.id, email, {
+        instructions: instructions?.trim(),
+        tone,
+        length,
+        language: language?.trim()
+      });
+
+      res.json({
+        success: true,
+        message: 'Draft revised',
+        data: revised
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a draft
+  router.delete('/drafts/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await draftService.deleteDraft(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Draft not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Draft deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -1,15 +1,88 @@
 import { Router, Request, Response } from 'express';
 import { ElasticsearchService } from '../services/elasticsearch.service';
 import  {EmailSyncService}  from '../services/emailSync.service';
-import { VectorService } from '../services/vector.service';
-import { AIService } from '../services/ai.service';
-import { SearchQuery } from '../types';
+import { ReplyPipeline } from '../services/replyPipeline.service';
+import { AttachmentService } from '../services/attachment.service';
+import { CategoryService } from '../services/category.service';
+import { config } from '../config';
+import { SearchQuery, ReplyRequest, EmailUpdate, RetrievalMode, RetrievalOptions } from '../types';
+
+function pickEmailUpdate(body: any): EmailUpdate {
+  const changes: EmailUpdate = {};
+  if (body?.isRead !== undefined) changes.isRead = body.isRead;
+  if (body?.isFlagged !== undefined) changes.isFlagged = body.isFlagged;
+  if (body?.folder !== undefined) changes.folder = body.folder;
+  if (body?.archive !== undefined) changes.archive = body.archive;
+  return changes;
+}
+
+function validateEmailUpdate(changes: EmailUpdate): string | null {
+  if (Object.keys(changes).length === 0) {
+    return 'Provide at least one of isRead, isFlagged, folder or archive';
+  }
+  for (const field of ['isRead', 'isFlagged', 'archive'] as const) {
+    if (changes[field] !== undefined && typeof changes[field] !== 'boolean') {
+      return `${field} must be a boolean`;
+    }
+  }
+  if (changes.folder !== undefined && (typeof changes.folder !== 'string' || !changes.folder)) {
+    return 'folder must be a non-empty string';
+  }
+  if (changes.archive && changes.folder) {
+    return 'Use either archive or folder, not both';
+  }
+  return null;
+}
+
+function validateIds(ids: any): string | null {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    return 'ids must be a non-empty array of email IDs';
+  }
+  return null;
+}
+
+const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'hybrid'];
+
+// Suggested reply retrieval settings from the request body, or a validation error
+export function parseRetrievalOptions(body: any): RetrievalOptions | string {
+  const { mode, topK, minScore, types } = body || {};
+  const options: RetrievalOptions = {};
+
+  if (mode !== undefined) {
+    if (!RETRIEVAL_MODES.includes(mode)) {
+      return `mode must be one of ${RETRIEVAL_MODES.join(', ')}`;
+    }
+    options.mode = mode;
+  }
+  if (topK !== undefined) {
+    if (!Number.isInteger(topK) || topK < 1 || topK > config.rag.maxTopK) {
+      return `topK must be an integer from 1 to ${config.rag.maxTopK}`;
+    }
+    options.topK = topK;
+  }
+  if (minScore !== undefined) {
+    if (typeof minScore !== 'number' || minScore < -1 || minScore > 1) {
+      return 'minScore must be a number from -1 to 1';
+    }
+    options.minScore = minScore;
+  }
+  if (types !== undefined) {
+    const list = typeof types === 'string' ? [types] : types;
+    if (!Array.isArray(list) || list.length === 0 || list.some(type => typeof type !== 'string' || !type)) {
+      return 'types must be a document type or a non-empty array of them, e.g. product_context';
+    }
+    options.types = list;
+  }
+
+  return options;
+}
 
 export function createEmailRoutes(
   elasticsearchService: ElasticsearchService,
   emailSyncService: EmailSyncService,
-  vectorService: VectorService,
-  aiService: AIService
+  replyPipeline: ReplyPipeline,
+  attachmentService: AttachmentService,
+  categoryService: CategoryService
 ): Router {
   const router = Router();
 
@@ -20,7 +93,7 @@ export function createEmailRoutes(
         query: req.query.query as string,
         folder: req.query.folder as string,
         accountId: req.query.accountId as string,
-        category: req.query.category as any,
+        category: req.query.category as string,
         page: req.query.page ? parseInt(req.query.page as string) : 1,
         size: req.query.size ? parseInt(req.query.size as string) : 20
       };
@@ -63,10 +136,19 @@ export function createEmailRoutes(
     }
   });
 
-  // Recategorize an email
+  // Recategorize an email; manually set categories need ?force=true
   router.post('/emails/:id/recategorize', async (req: Request, res: Response) => {
     try {
-      await emailSyncService.recategorizeEmail(req.params.id);
+      const force = req.query.force === 'true' || req.body?.force === true;
+      const recategorized = await emailSyncService.recategorizeEmail(req.params.id, force);
+
+      if (!recategorized) {
+        return res.status(409).json({
+          success: false,
+          error: 'Category was set manually; pass force=true to recategorize anyway'
+        });
+      }
+
       const email = await elasticsearchService.getEmailById(req.params.id);
 
       res.json({
@@ -82,6 +164,205 @@ export function createEmailRoutes(
     }
   });
 
+  // Set the category by hand: { category, note? }
+  router.put('/emails/:id/category', async (req: Request, res: Response) => {
+    try {
+      const { category: name, note } = req.body || {};
+
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'category is required'
+        });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'note must be a string'
+        });
+      }
+
+      const category = await categoryService.findByName(name);
+
+      if (!category) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown category: ${name}`
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const updated = await emailSyncService.overrideCategory(email, category.name, note);
+
+      res.json({
+        success: true,
+        message: 'Category set',
+        data: updated
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Bulk read/flag/move: { ids, isRead?, isFlagged?, folder?, archive? }
+  router.patch('/emails', async (req: Request, res: Response) => {
+    try {
+      const { ids } = req.body || {};
+      const changes = pickEmailUpdate(req.body);
+      const validationError = validateIds(ids) || validateEmailUpdate(changes);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const emails = await elasticsearchService.getEmailsByIds(ids);
+      const results = await emailSyncService.updateEmails(emails, changes);
+      const found = new Set(emails.map(email => email.id));
+
+      for (const id of ids as string[]) {
+        if (!found.has(id)) {
+          results.push({ id, success: false, error: 'Email not found' });
+        }
+      }
+
+      res.json({
+        success: true,
+        data: results
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Bulk delete: { ids, permanent? }; moves to Trash unless permanent
+  router.post('/emails/delete', async (req: Request, res: Response) => {
+    try {
+      const { ids, permanent } = req.body || {};
+      const validationError = validateIds(ids);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const emails = await elasticsearchService.getEmailsByIds(ids);
+      const results = await emailSyncService.deleteEmails(emails, permanent === true);
+      const found = new Set(emails.map(email => email.id));
+
+      for (const id of ids as string[]) {
+        if (!found.has(id)) {
+          results.push({ id, success: false, error: 'Email not found' });
+        }
+      }
+
+      res.json({
+        success: true,
+        data: results
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Mark read/unread, flag, archive or move a single email
+  router.patch('/emails/:id', async (req: Request, res: Response) => {
+    try {
+      const changes = pickEmailUpdate(req.body);
+      const validationError = validateEmailUpdate(changes);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const [result] = await emailSyncService.updateEmails([email], changes);
+
+      if (!result.success) {
+        return res.status(500).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Email updated',
+        data: result.email
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a single email; ?permanent=true expunges instead of moving to Trash
+  router.delete('/emails/:id', async (req: Request, res: Response) => {
+    try {
+      const email = await elasticsearchService.getEmailById(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const [result] = await emailSyncService.deleteEmails([email], req.query.permanent === 'true');
+
+      if (!result.success) {
+        return res.status(500).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Email deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
   // Search emails
   router.post('/emails/search', async (req: Request, res: Response) => {
     try {
@@ -105,17 +386,16 @@ export function createEmailRoutes(
     try {
       const accountId = req.query.accountId as string;
       
-      const categories = ['Interested', 'Meeting Booked', 'Not Interested', 'Spam', 'Out of Office', 'Uncategorized'];
-      const stats: any = {};
+      const categories = await categoryService.listCategories();
+      const counts = await elasticsearchService.getCategoryCounts(accountId);
+      const stats: Record<string, number> = {};
 
+      // Every defined category appears, plus any labels left on emails
       for (const category of categories) {
-        const result = await elasticsearchService.searchEmails({
-          category: category as any,
-          accountId,
-          page: 1,
-          size: 0
-        });
-        stats[category] = result.total;
+        stats[category.name] = counts[category.name] || 0;
+      }
+      for (const [name, count] of Object.entries(counts)) {
+        if (stats[name] === undefined) stats[name] = count;
       }
 
       res.json({
@@ -130,23 +410,33 @@ export function createEmailRoutes(
     }
   });
 
-  // Store product context for RAG
-  router.post('/context/product', async (req: Request, res: Response) => {
+  // Generate suggested reply using RAG; ?debug=true adds the scored chunks and the prompt
+  router.post('/emails/:id/suggest-reply', async (req: Request, res: Response) => {
     try {
-      const { id, text, metadata } = req.body;
+      const email = await elasticsearchService.getEmailById(req.params.id);
+      
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      const options = parseRetrievalOptions(req.body);
 
-      if (!id || !text) {
+      if (typeof options === 'string') {
         return res.status(400).json({
           success: false,
-          error: 'ID and text are required'
+          error: options
         });
       }
 
-      await vectorService.storeProductContext(id, text, metadata);
+      const debug = req.query.debug === 'true' || req.body?.debug === true;
+      const suggestedReply = await replyPipeline.suggestReply(email, options, debug);
 
       res.json({
         success: true,
-        message: 'Product context stored successfully'
+        data: suggestedReply
       });
     } catch (error: any) {
       res.status(500).json({
@@ -156,23 +446,33 @@ export function createEmailRoutes(
     }
   });
 
-  // Store outreach agenda for RAG
-  router.post('/context/agenda', async (req: Request, res: Response) => {
+  // Send a threaded reply over SMTP
+  router.post('/emails/:id/reply', async (req: Request, res: Response) => {
     try {
-      const { id, text, metadata } = req.body;
+      const request: ReplyRequest = req.body;
 
-      if (!id || !text) {
+      if (!request || !request.text) {
         return res.status(400).json({
           success: false,
-          error: 'ID and text are required'
+          error: 'Reply text is required'
+        });
+      }
+
+      const email = await elasticsearchService.getEmailById(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
         });
       }
 
-      await vectorService.storeOutreachAgenda(id, text, metadata);
+      const sent = await emailSyncService.sendReply(email, request);
 
       res.json({
         success: true,
-        message: 'Outreach agenda stored successfully'
+        message: 'Reply sent successfully',
+        data: sent
       });
     } catch (error: any) {
       res.status(500).json({
@@ -182,11 +482,11 @@ export function createEmailRoutes(
     }
   });
 
-  // Generate suggested reply using RAG
-  router.post('/emails/:id/suggest-reply', async (req: Request, res: Response) => {
+  // Download an attachment by its position in the email's attachment list
+  router.get('/emails/:id/attachments/:index', async (req: Request, res: Response) => {
     try {
       const email = await elasticsearchService.getEmailById(req.params.id);
-      
+
       if (!email) {
         return res.status(404).json({
           success: false,
@@ -194,12 +494,29 @@ export function createEmailRoutes(
         });
       }
 
-      const suggestedReply = await vectorService.generateSuggestedReply(email);
+      const index = parseInt(req.params.index);
+      const attachment = email.attachments?.[index];
 
-      res.json({
-        success: true,
-        data: suggestedReply
-      });
+      if (!attachment) {
+        return res.status(404).json({
+          success: false,
+          error: 'Attachment not found'
+        });
+      }
+
+      // Emails indexed before attachments were stored only have metadata
+      const content = await attachmentService.getContent(attachment);
+
+      if (!content) {
+        return res.status(404).json({
+          success: false,
+          error: 'Attachment content is not stored'
+        });
+      }
+
+      res.attachment(attachment.filename);
+      res.type(attachment.contentType || 'application/octet-stream');
+      res.send(content);
     } catch (error: any) {
       res.status(500).json({
         success: false,
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { FeedbackService } from '../services/feedback.service';
+
+const REPORT_SOURCES = ['ai', 'rule'] as const;
+
+export function createFeedbackRoutes(feedbackService: FeedbackService): Router {
+  const router = Router();
+
+  // List human-labelled examples
+  router.get('/feedback/examples', async (req: Request, res: Response) => {
+    try {
+      const examples = await feedbackService.listExamples(req.query.accountId as string);
+
+      res.json({
+        success: true,
+        data: examples
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Stop using an email as an example; its category stays as set
+  router.delete('/feedback/examples/:emailId', async (req: Request, res: Response) => {
+    try {
+      const deleted = await feedbackService.deleteExample(req.params.emailId);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Example not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Example deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Confusion matrix and per-category precision/recall against human labels
+  router.get('/feedback/accuracy', async (req: Request, res: Response) => {
+    try {
+      const source = (req.query.source as string) || 'ai';
+
+      if (!REPORT_SOURCES.includes(source as typeof REPORT_SOURCES[number])) {
+        return res.status(400).json({
+          success: false,
+          error: `source must be one of ${REPORT_SOURCES.join(', ')}`
+        });
+      }
+
+      const report = await feedbackService.accuracyReport(
+        source as typeof REPORT_SOURCES[number],
+        req.query.accountId as string
+      );
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { JobQueueService } from '../services/jobQueue.service';
+import { JobQuery, JobStatus } from '../types';
+
+const STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+export function createJobRoutes(jobQueue: JobQueueService): Router {
+  const router = Router();
+
+  // List background jobs, most recently updated first
+  router.get('/jobs', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as JobStatus | undefined;
+
+      if (status && !STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: `status must be one of ${STATUSES.join(', ')}`
+        });
+      }
+
+      const jobQuery: JobQuery = {
+        status,
+        type: req.query.type as string,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 100
+      };
+
+      const result = await jobQueue.listJobs(jobQuery);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single job
+  router.get('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Run a failed job again
+  router.post('/jobs/:id/retry', async (req: Request, res: Response) => {
+    try {
+      const job = await jobQueue.retryJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Failed job not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Job queued for retry',
+        data: job
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
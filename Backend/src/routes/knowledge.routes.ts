@@ -0,0 +1,259 @@
+import { Router, Request, Response } from 'express';
+import { KnowledgeService } from '../services/knowledge.service';
+import { KnowledgeFormat, KnowledgeIngestInput } from '../types';
+
+const FORMATS: KnowledgeFormat[] = ['markdown', 'html', 'pdf', 'text'];
+
+// Document IDs are part of chunk vector IDs
+const ID_PATTERN = /^[\w.-]{1,128}$/;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/\s]*={0,2}\s*$/;
+
+/**
+ * Reads an ingest request: either `text`, or `content` holding the file
+ * base64-encoded together with its `filename` and/or `contentType`.
+ * Returns the input or a validation error.
+ */
+function parseIngestInput(body: any, defaults: Partial<KnowledgeIngestInput> = {}): KnowledgeIngestInput | string {
+  const { title, type, text, content, filename, contentType, format, metadata } = body || {};
+
+  const resolvedTitle = title ?? defaults.title;
+  if (typeof resolvedTitle !== 'string' || !resolvedTitle.trim()) {
+    return 'title is required';
+  }
+  const resolvedType = type ?? defaults.type ?? 'product_context';
+  if (typeof resolvedType !== 'string' || !resolvedType.trim()) {
+    return 'type must be a non-empty string';
+  }
+
+  if ((text === undefined) === (content === undefined)) {
+    return 'Provide either text or base64 content';
+  }
+  if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+    return 'text must be a non-empty string';
+  }
+  if (content !== undefined && (typeof content !== 'string' || !content || !BASE64_PATTERN.test(content))) {
+    return 'content must be base64-encoded';
+  }
+  if (filename !== undefined && typeof filename !== 'string') {
+    return 'filename must be a string';
+  }
+  if (contentType !== undefined && typeof contentType !== 'string') {
+    return 'contentType must be a string';
+  }
+  if (format !== undefined && !FORMATS.includes(format)) {
+    return `format must be one of ${FORMATS.join(', ')}`;
+  }
+
+  if (metadata !== undefined) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)
+      || !Object.values(metadata).every(value => ['string', 'number', 'boolean'].includes(typeof value))) {
+      return 'metadata must be an object of strings, numbers and booleans';
+    }
+  }
+
+  return {
+    title: resolvedTitle.trim(),
+    type: resolvedType.trim(),
+    metadata: metadata ?? defaults.metadata,
+    text,
+    content: content !== undefined ? Buffer.from(content, 'base64') : undefined,
+    filename,
+    contentType,
+    format
+  };
+}
+
+export function createKnowledgeRoutes(knowledgeService: KnowledgeService): Router {
+  const router = Router();
+
+  // List knowledge documents, optionally of one type
+  router.get('/knowledge/documents', async (req: Request, res: Response) => {
+    try {
+      const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+      const documents = await knowledgeService.listDocuments(type);
+
+      res.json({
+        success: true,
+        data: documents
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Upload a document; it's chunked and embedded before responding
+  router.post('/knowledge/documents', async (req: Request, res: Response) => {
+    try {
+      const input = parseIngestInput(req.body);
+
+      if (typeof input === 'string') {
+        return res.status(400).json({
+          success: false,
+          error: input
+        });
+      }
+
+      const { id } = req.body;
+      if (id !== undefined) {
+        if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+          return res.status(400).json({
+            success: false,
+            error: 'id may only contain letters, digits, _, . and -'
+          });
+        }
+        if (await knowledgeService.getDocument(id)) {
+          return res.status(409).json({
+            success: false,
+            error: 'A document with this ID already exists; use PUT to ingest a new version'
+          });
+        }
+      }
+
+      const { document } = await knowledgeService.ingestDocument({ ...input, id });
+
+      res.status(201).json({
+        success: true,
+        message: `Document ingested (${document.chunks.length} chunks)`,
+        data: document
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a document with the chunks of its current version
+  router.get('/knowledge/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const document = await knowledgeService.getDocument(req.params.id);
+
+      if (!document) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: document
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Re-ingest a document as a new version; title and type default to the current ones
+  router.put('/knowledge/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const current = await knowledgeService.getDocument(req.params.id);
+
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found'
+        });
+      }
+
+      const input = parseIngestInput(req.body, current);
+
+      if (typeof input === 'string') {
+        return res.status(400).json({
+          success: false,
+          error: input
+        });
+      }
+
+      const { document, status } = await knowledgeService.ingestDocument({ ...input, id: current.id });
+
+      res.json({
+        success: true,
+        message: status === 'unchanged'
+          ? 'Content unchanged; no new version created'
+          : `Version ${document.version} ingested (${document.chunks.length} chunks)`,
+        data: document
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a document and its vectors
+  router.delete('/knowledge/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await knowledgeService.deleteDocument(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Document deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Older plain-text endpoints, kept for existing clients: the ID is the document ID
+  const storeContext = (type: string, label: string) => async (req: Request, res: Response) => {
+    try {
+      const { id, text, metadata } = req.body;
+
+      if (!id || !text) {
+        return res.status(400).json({
+          success: false,
+          error: 'ID and text are required'
+        });
+      }
+
+      const input = parseIngestInput({ title: metadata?.title || String(id), type, text, metadata });
+
+      if (typeof input === 'string' || !ID_PATTERN.test(String(id))) {
+        return res.status(400).json({
+          success: false,
+          error: typeof input === 'string' ? input : 'id may only contain letters, digits, _, . and -'
+        });
+      }
+
+      await knowledgeService.ingestDocument({ ...input, id: String(id) });
+
+      res.json({
+        success: true,
+        message: `${label} stored successfully`
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  };
+
+  // Store product context for RAG
+  router.post('/context/product', storeContext('product_context', 'Product context'));
+
+  // Store outreach agenda for RAG
+  router.post('/context/agenda', storeContext('outreach_agenda', 'Outreach agenda'));
+
+  return router;
+}
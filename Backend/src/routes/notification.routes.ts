@@ -0,0 +1,300 @@
+import { Router, Request, Response } from 'express';
+import { NotificationRouteService } from '../services/notificationRoute.service';
+import { CategoryService } from '../services/category.service';
+import { EmailSyncService } from '../services/emailSync.service';
+import { isValidTime, isValidTimeZone } from '../utils/quietHours';
+import { NotificationChannelType, NotificationRouteInput } from '../types';
+
+const EDITABLE_FIELDS: Array<keyof NotificationRouteInput> = [
+  'name', 'enabled', 'conditions', 'channel', 'templates', 'quietHours', 'throttle'
+];
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['slack', 'webhook', 'teams', 'discord', 'email-digest'];
+
+const LIST_CONDITIONS = ['categories', 'accountIds', 'senderDomains', 'keywords'] as const;
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+function pickRouteInput(body: any): Partial<NotificationRouteInput> {
+  const input: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+  if (typeof input.name === 'string') {
+    input.name = input.name.trim();
+  }
+  return input;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+function validateRouteInput(input: Partial<NotificationRouteInput>, partial: boolean, categories: string[]): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name) {
+      return 'name is required';
+    }
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (!partial || input.channel !== undefined) {
+    const channel = input.channel;
+    if (!channel || !CHANNEL_TYPES.includes(channel.type)) {
+      return `channel.type must be one of ${CHANNEL_TYPES.join(', ')}`;
+    }
+
+    if (channel.type === 'email-digest') {
+      if (!isStringArray(channel.to) || channel.to.length === 0) {
+        return 'channel.to must list the digest recipients';
+      }
+      if (typeof channel.accountId !== 'string' || !channel.accountId) {
+        return 'channel.accountId is required; the digest is sent with that account\'s SMTP settings';
+      }
+      if (channel.intervalMinutes !== undefined && (typeof channel.intervalMinutes !== 'number' || channel.intervalMinutes < 1)) {
+        return 'channel.intervalMinutes must be a number of at least 1';
+      }
+    } else if (typeof channel.url !== 'string' || !URL_PATTERN.test(channel.url)) {
+      return 'channel.url must be an http(s) URL';
+    }
+    if (channel.legacyEvents !== undefined && (channel.type !== 'webhook' || typeof channel.legacyEvents !== 'boolean')) {
+      return 'channel.legacyEvents must be a boolean on webhook routes';
+    }
+  }
+
+  if (input.conditions !== undefined) {
+    const conditions = input.conditions;
+    if (!conditions || typeof conditions !== 'object') {
+      return 'conditions must be an object';
+    }
+    for (const field of LIST_CONDITIONS) {
+      if (conditions[field] !== undefined && !isStringArray(conditions[field])) {
+        return `conditions.${field} must be an array of strings`;
+      }
+    }
+
+    const unknown = (conditions.categories || []).filter(name => !categories.includes(name));
+    if (unknown.length > 0) {
+      return `Unknown categories: ${unknown.join(', ')}`;
+    }
+
+    const { minConfidence } = conditions;
+    if (minConfidence !== undefined && (typeof minConfidence !== 'number' || minConfidence < 0 || minConfidence > 1)) {
+      return 'conditions.minConfidence must be between 0 and 1';
+    }
+  }
+
+  if (input.templates !== undefined) {
+    const templates = input.templates;
+    if (!templates || typeof templates !== 'object') {
+      return 'templates must be an object';
+    }
+    if ((templates.title !== undefined && typeof templates.title !== 'string')
+      || (templates.body !== undefined && typeof templates.body !== 'string')) {
+      return 'templates.title and templates.body must be strings';
+    }
+  }
+
+  // null turns quiet hours off
+  if (input.quietHours !== undefined && input.quietHours !== null) {
+    const { start, end, timezone } = input.quietHours;
+    if (!isValidTime(start) || !isValidTime(end)) {
+      return 'quietHours.start and quietHours.end must be times like 22:00';
+    }
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return 'quietHours.timezone must be an IANA time zone like Europe/Berlin';
+    }
+  }
+
+  if (input.throttle !== undefined) {
+    const throttle = input.throttle;
+    if (!throttle || !Number.isInteger(throttle.limit) || throttle.limit < 0
+      || typeof throttle.windowMinutes !== 'number' || throttle.windowMinutes <= 0) {
+      return 'throttle needs a limit (0 for no throttling) and a positive windowMinutes';
+    }
+  }
+
+  return null;
+}
+
+export function createNotificationRoutes(
+  notificationRouteService: NotificationRouteService,
+  categoryService: CategoryService,
+  emailSyncService: EmailSyncService
+): Router {
+  const router = Router();
+
+  const categoryNames = async (): Promise<string[]> =>
+    (await categoryService.listCategories()).map(category => category.name);
+
+  // List notification routes
+  router.get('/notifications/routes', async (req: Request, res: Response) => {
+    try {
+      const routes = await notificationRouteService.listRoutes();
+
+      res.json({
+        success: true,
+        data: routes
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Create a notification route
+  router.post('/notifications/routes', async (req: Request, res: Response) => {
+    try {
+      const input = pickRouteInput(req.body);
+      const validationError = validateRouteInput(input, false, await categoryNames());
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const route = await notificationRouteService.createRoute({
+        enabled: true,
+        conditions: {},
+        templates: {},
+        ...input
+      } as NotificationRouteInput);
+
+      res.status(201).json({
+        success: true,
+        message: 'Notification route created',
+        data: route
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single notification route
+  router.get('/notifications/routes/:id', async (req: Request, res: Response) => {
+    try {
+      const route = await notificationRouteService.getRoute(req.params.id);
+
+      if (!route) {
+        return res.status(404).json({
+          success: false,
+          error: 'Notification route not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: route
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Update a notification route; conditions, channel and templates are replaced as a whole
+  router.patch('/notifications/routes/:id', async (req: Request, res: Response) => {
+    try {
+      const input = pickRouteInput(req.body);
+      const validationError = validateRouteInput(input, true, await categoryNames());
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const route = await notificationRouteService.updateRoute(req.params.id, input);
+
+      if (!route) {
+        return res.status(404).json({
+          success: false,
+          error: 'Notification route not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Notification route updated',
+        data: route
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a notification route
+  router.delete('/notifications/routes/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await notificationRouteService.deleteRoute(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Notification route not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Notification route deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Send a test notification, for a given email or a sample one
+  router.post('/notifications/routes/:id/test', async (req: Request, res: Response) => {
+    try {
+      const route = await notificationRouteService.getRoute(req.params.id);
+
+      if (!route) {
+        return res.status(404).json({
+          success: false,
+          error: 'Notification route not found'
+        });
+      }
+
+      const sent = await emailSyncService.testRoute(route, req.body?.emailId);
+
+      if (!sent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Test notification sent'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { AccountService } from '../services/account.service';
+import { EmailSyncService } from '../services/emailSync.service';
+import { OAuthService } from '../services/oauth.service';
+import { ManagedAccount } from '../types';
+
+export function createOAuthRoutes(
+  accountService: AccountService,
+  emailSyncService: EmailSyncService,
+  oauthService: OAuthService
+): Router {
+  const router = Router();
+
+  // Start the authorization-code flow for a new account or to re-authorize an existing one
+  router.post('/oauth/:provider/authorize', async (req: Request, res: Response) => {
+    try {
+      const { provider } = req.params;
+      const { accountId, user, name } = req.body || {};
+
+      if (!oauthService.isSupportedProvider(provider)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported OAuth provider: ${provider}`
+        });
+      }
+
+      if (accountId) {
+        const account = await accountService.getAccount(accountId);
+        if (!account) {
+          return res.status(404).json({
+            success: false,
+            error: 'Account not found'
+          });
+        }
+      } else if (!user) {
+        return res.status(400).json({
+          success: false,
+          error: 'user is required when authorizing a new account'
+        });
+      }
+
+      const { url, state } = oauthService.createAuthorizationUrl({ provider, accountId, user, name });
+
+      res.json({
+        success: true,
+        data: { authorizationUrl: url, state }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Redirect target registered with the provider
+  router.get('/oauth/callback', async (req: Request, res: Response) => {
+    try {
+      const { code, state, error: providerError, error_description } = req.query as Record<string, string>;
+
+      if (providerError) {
+        return res.status(400).json({
+          success: false,
+          error: error_description || providerError
+        });
+      }
+
+      const pending = state ? oauthService.takePending(state) : undefined;
+      if (!pending || !code) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid or expired authorization state'
+        });
+      }
+
+      const tokens = await oauthService.exchangeCode(pending.provider, code);
+      const oauth2 = { provider: pending.provider, ...tokens };
+      const provider = oauthService.getProvider(pending.provider);
+
+      let account: ManagedAccount | undefined;
+      if (pending.accountId) {
+        account = await accountService.updateAccount(pending.accountId, { authType: 'oauth2', oauth2 });
+        if (!account) {
+          return res.status(404).json({
+            success: false,
+            error: 'Account not found'
+          });
+        }
+      } else {
+        account = await accountService.createAccount({
+          user: pending.user!,
+          password: '',
+          name: pending.name || pending.user!,
+          host: provider.imap.host,
+          port: provider.imap.port,
+          authType: 'oauth2',
+          oauth2,
+          smtp: { ...provider.smtp }
+        });
+      }
+
+      if (!account.paused) {
+        emailSyncService.startAccount(account).catch(error => {
+          console.error(` Failed to start account ${account!.user}:`, error);
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Account authorized',
+        data: {
+          id: account.id,
+          user: account.user,
+          name: account.name,
+          provider: pending.provider
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
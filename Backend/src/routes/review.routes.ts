@@ -0,0 +1,116 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config';
+import { ElasticsearchService } from '../services/elasticsearch.service';
+import { EmailSyncService } from '../services/emailSync.service';
+import { CategoryService, FALLBACK_CATEGORY } from '../services/category.service';
+import { EmailUpdateResult, ReviewQueueQuery } from '../types';
+
+export function createReviewRoutes(
+  elasticsearchService: ElasticsearchService,
+  emailSyncService: EmailSyncService,
+  categoryService: CategoryService
+): Router {
+  const router = Router();
+
+  // Low-confidence and failed AI categorizations, least confident first
+  router.get('/review-queue', async (req: Request, res: Response) => {
+    try {
+      const threshold = req.query.threshold !== undefined
+        ? parseFloat(req.query.threshold as string)
+        : config.llm.reviewThreshold;
+
+      if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'threshold must be a number between 0 and 1'
+        });
+      }
+
+      const reviewQuery: ReviewQueueQuery = {
+        threshold,
+        accountId: req.query.accountId as string,
+        category: req.query.category as string,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        size: req.query.size ? parseInt(req.query.size as string) : 20
+      };
+
+      const result = await elasticsearchService.searchReviewQueue(reviewQuery);
+
+      res.json({
+        success: true,
+        data: { ...result, threshold }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Confirm (no category) or fix (with category) reviewed emails: { ids, category?, note? }
+  router.post('/review-queue/resolve', async (req: Request, res: Response) => {
+    try {
+      const { ids, category: name, note } = req.body || {};
+
+      if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+        return res.status(400).json({
+          success: false,
+          error: 'ids must be a non-empty array of email IDs'
+        });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'note must be a string'
+        });
+      }
+
+      let category: string | undefined;
+      if (name !== undefined) {
+        const found = typeof name === 'string' ? await categoryService.findByName(name) : undefined;
+        if (!found) {
+          return res.status(400).json({
+            success: false,
+            error: `Unknown category: ${name}`
+          });
+        }
+        category = found.name;
+      }
+
+      const emails = await elasticsearchService.getEmailsByIds(ids);
+      const results: EmailUpdateResult[] = [];
+
+      for (const id of ids) {
+        const email = emails.find(entry => entry.id === id);
+        if (!email) {
+          results.push({ id, success: false, error: 'Email not found' });
+          continue;
+        }
+
+        try {
+          const updated = await emailSyncService.overrideCategory(
+            email,
+            category || email.category || FALLBACK_CATEGORY,
+            note || (category ? undefined : 'Confirmed in review')
+          );
+          results.push({ id, success: true, email: updated });
+        } catch (error: any) {
+          results.push({ id, success: false, error: error.message });
+        }
+      }
+
+      res.json({
+        success: true,
+        data: results
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
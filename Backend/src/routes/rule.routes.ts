@@ -0,0 +1,295 @@
+import { Router, Request, Response } from 'express';
+import { RuleService } from '../services/rule.service';
+import { CategoryService } from '../services/category.service';
+import { RuleInput } from '../types';
+
+const EDITABLE_FIELDS: Array<keyof RuleInput> = [
+  'name', 'enabled', 'priority', 'match', 'conditions', 'action', 'explanation'
+];
+
+const LIST_CONDITIONS = ['senderDomains', 'attachmentTypes'] as const;
+const REGEX_CONDITIONS = ['subject', 'body'] as const;
+
+function pickRuleInput(body: any): Partial<RuleInput> {
+  const input: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+  return input;
+}
+
+function regexError(pattern: unknown, label: string): string | null {
+  if (typeof pattern !== 'string') {
+    return `${label} must be a string`;
+  }
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error: any) {
+    return `${label} is not a valid regular expression: ${error.message}`;
+  }
+}
+
+function validateRuleInput(input: Partial<RuleInput>, partial: boolean, categories: string[]): string | null {
+  if (!partial && !input.name) {
+    return 'name is required';
+  }
+  if (input.match !== undefined && input.match !== 'all' && input.match !== 'any') {
+    return 'match must be all or any';
+  }
+  if (input.priority !== undefined && typeof input.priority !== 'number') {
+    return 'priority must be a number';
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (!partial || input.conditions !== undefined) {
+    const conditions = input.conditions;
+    if (!conditions || typeof conditions !== 'object') {
+      return 'conditions is required';
+    }
+
+    const headers = conditions.headers || {};
+    for (const [name, pattern] of Object.entries(headers)) {
+      const error = regexError(pattern, `conditions.headers.${name}`);
+      if (error) return error;
+    }
+    for (const field of REGEX_CONDITIONS) {
+      if (conditions[field] !== undefined) {
+        const error = regexError(conditions[field], `conditions.${field}`);
+        if (error) return error;
+      }
+    }
+    for (const field of LIST_CONDITIONS) {
+      const value = conditions[field];
+      if (value !== undefined && (!Array.isArray(value) || value.some(entry => typeof entry !== 'string'))) {
+        return `conditions.${field} must be an array of strings`;
+      }
+    }
+
+    const hasCondition = Object.keys(headers).length > 0
+      || REGEX_CONDITIONS.some(field => conditions[field])
+      || LIST_CONDITIONS.some(field => conditions[field]?.length);
+    if (!hasCondition) {
+      return 'conditions must include at least one condition';
+    }
+  }
+
+  if (!partial || input.action !== undefined) {
+    const action = input.action;
+    if (!action || (!action.category && !action.skipAI)) {
+      return 'action must set a category or skipAI';
+    }
+    if (action.category && !categories.includes(action.category)) {
+      return `action.category must be one of ${categories.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+export function createRuleRoutes(ruleService: RuleService, categoryService: CategoryService): Router {
+  const router = Router();
+
+  const categoryNames = async (): Promise<string[]> =>
+    (await categoryService.listCategories()).map(category => category.name);
+
+  const parseLimit = (value: unknown): number | undefined =>
+    value ? parseInt(value as string) : undefined;
+
+  // List rules in evaluation order
+  router.get('/rules', async (req: Request, res: Response) => {
+    try {
+      const rules = await ruleService.listRules();
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Create a rule
+  router.post('/rules', async (req: Request, res: Response) => {
+    try {
+      const input = pickRuleInput(req.body);
+      const validationError = validateRuleInput(input, false, await categoryNames());
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const rule = await ruleService.createRule({
+        enabled: true,
+        priority: 100,
+        match: 'all',
+        explanation: `Matched rule "${input.name}"`,
+        ...input
+      } as RuleInput);
+
+      res.status(201).json({
+        success: true,
+        message: 'Rule created',
+        data: rule
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Preview an unsaved rule against stored emails
+  router.post('/rules/dry-run', async (req: Request, res: Response) => {
+    try {
+      const input = pickRuleInput(req.body);
+      const validationError = validateRuleInput({ name: 'dry-run', ...input }, false, await categoryNames());
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const result = await ruleService.dryRun(
+        { match: input.match || 'all', conditions: input.conditions!, action: input.action! },
+        req.body?.accountId,
+        parseLimit(req.body?.limit)
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single rule
+  router.get('/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const rule = await ruleService.getRule(req.params.id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: rule
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Update a rule
+  router.patch('/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const input = pickRuleInput(req.body);
+      const validationError = validateRuleInput(input, true, await categoryNames());
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const rule = await ruleService.updateRule(req.params.id, input);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Rule updated',
+        data: rule
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a rule
+  router.delete('/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await ruleService.deleteRule(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Rule deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Preview a stored rule (enabled or not) against stored emails
+  router.post('/rules/:id/dry-run', async (req: Request, res: Response) => {
+    try {
+      const rule = await ruleService.getRule(req.params.id);
+
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule not found'
+        });
+      }
+
+      const result = await ruleService.dryRun(rule, req.body?.accountId, parseLimit(req.body?.limit));
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
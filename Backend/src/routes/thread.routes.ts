@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { ThreadService } from '../services/thread.service';
+import { ThreadQuery } from '../types';
+
+export function createThreadRoutes(threadService: ThreadService): Router {
+  const router = Router();
+
+  // List conversations, most recently active first
+  router.get('/threads', async (req: Request, res: Response) => {
+    try {
+      const threadQuery: ThreadQuery = {
+        query: req.query.query as string,
+        folder: req.query.folder as string,
+        accountId: req.query.accountId as string,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        size: req.query.size ? parseInt(req.query.size as string) : 20
+      };
+
+      const result = await threadService.listThreads(threadQuery);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a conversation with its messages in chronological order
+  router.get('/threads/:id', async (req: Request, res: Response) => {
+    try {
+      const thread = await threadService.getThread(req.params.id);
+
+      if (!thread) {
+        return res.status(404).json({
+          success: false,
+          error: 'Thread not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: thread
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
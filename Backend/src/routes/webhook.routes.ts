@@ -0,0 +1,297 @@
+import { Router, Request, Response } from 'express';
+import { WEBHOOK_EVENTS, WebhookService, generateWebhookSecret } from '../services/webhook.service';
+import {
+  WebhookDeliveryQuery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionInput
+} from '../types';
+
+const EDITABLE_FIELDS: Array<keyof WebhookSubscriptionInput> = ['name', 'url', 'events', 'secret', 'enabled'];
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+function pickSubscriptionInput(body: any): Partial<WebhookSubscriptionInput> {
+  const input: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  }
+  if (typeof input.name === 'string') {
+    input.name = input.name.trim();
+  }
+  return input;
+}
+
+function validateSubscriptionInput(input: Partial<WebhookSubscriptionInput>, partial: boolean): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name) {
+      return 'name is required';
+    }
+  }
+  if (!partial || input.url !== undefined) {
+    if (typeof input.url !== 'string' || !URL_PATTERN.test(input.url)) {
+      return 'url must be an http(s) URL';
+    }
+  }
+  if (!partial || input.events !== undefined) {
+    const events = input.events;
+    if (!Array.isArray(events) || events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+      return `events must list one or more of ${WEBHOOK_EVENTS.join(', ')}`;
+    }
+  }
+  if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < 16)) {
+    return 'secret must be a string of at least 16 characters';
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  return null;
+}
+
+// The secret is only returned when the subscription is created
+function toSummary(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  const { secret, ...rest } = subscription;
+  return rest;
+}
+
+export function createWebhookRoutes(webhookService: WebhookService): Router {
+  const router = Router();
+
+  // List webhook subscriptions
+  router.get('/webhooks', async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await webhookService.listSubscriptions();
+
+      res.json({
+        success: true,
+        data: subscriptions.map(toSummary)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Create a webhook subscription; a secret is generated unless one is given
+  router.post('/webhooks', async (req: Request, res: Response) => {
+    try {
+      const input = pickSubscriptionInput(req.body);
+      const validationError = validateSubscriptionInput(input, false);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const subscription = await webhookService.createSubscription({
+        enabled: true,
+        secret: generateWebhookSecret(),
+        ...input
+      } as WebhookSubscriptionInput);
+
+      res.status(201).json({
+        success: true,
+        message: 'Webhook subscription created; store the secret, it is not shown again',
+        data: subscription
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delivery log, newest first
+  router.get('/webhooks/deliveries', async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as WebhookDeliveryStatus | undefined;
+      const event = req.query.event as WebhookEventType | undefined;
+
+      if (status && !DELIVERY_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: `status must be one of ${DELIVERY_STATUSES.join(', ')}`
+        });
+      }
+
+      if (event && !WEBHOOK_EVENTS.includes(event)) {
+        return res.status(400).json({
+          success: false,
+          error: `event must be one of ${WEBHOOK_EVENTS.join(', ')}`
+        });
+      }
+
+      const deliveryQuery: WebhookDeliveryQuery = {
+        subscriptionId: req.query.subscriptionId as string,
+        status,
+        event,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 100
+      };
+
+      const result = await webhookService.listDeliveries(deliveryQuery);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single delivery with its attempts
+  router.get('/webhooks/deliveries/:id', async (req: Request, res: Response) => {
+    try {
+      const delivery = await webhookService.getDelivery(req.params.id);
+
+      if (!delivery) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: delivery
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Send a delivery's event again as a new delivery
+  router.post('/webhooks/deliveries/:id/redeliver', async (req: Request, res: Response) => {
+    try {
+      const original = await webhookService.getDelivery(req.params.id);
+
+      if (!original) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery not found'
+        });
+      }
+
+      if (!await webhookService.getSubscription(original.subscriptionId)) {
+        return res.status(409).json({
+          success: false,
+          error: 'The subscription for this delivery has been deleted'
+        });
+      }
+
+      const delivery = await webhookService.redeliver(original.id);
+
+      res.json({
+        success: true,
+        message: 'Delivery queued',
+        data: delivery
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Get a single webhook subscription
+  router.get('/webhooks/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await webhookService.getSubscription(req.params.id);
+
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook subscription not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: toSummary(subscription)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Update a webhook subscription
+  router.patch('/webhooks/:id', async (req: Request, res: Response) => {
+    try {
+      const input = pickSubscriptionInput(req.body);
+      const validationError = validateSubscriptionInput(input, true);
+
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const subscription = await webhookService.updateSubscription(req.params.id, input);
+
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook subscription not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook subscription updated',
+        data: toSummary(subscription)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Delete a webhook subscription
+  router.delete('/webhooks/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await webhookService.deleteSubscription(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook subscription not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook subscription deleted'
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,16 @@
+import { ElasticsearchService } from '../services/elasticsearch.service';
+import { AccountService } from '../services/account.service';
+import { ThreadService } from '../services/thread.service';
+
+// One-off: assign threads to emails indexed before threading existed.
+// Run once after upgrading: `npm run threads:backfill`
+async function main(): Promise<void> {
+  const threadService = new ThreadService(new ElasticsearchService(), new AccountService());
+  const updated = await threadService.backfillThreads();
+  console.log(` Done: ${updated} emails assigned to threads`);
+}
+
+main().catch((error) => {
+  console.error('❌ Thread backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,14 @@
+import { ElasticsearchService } from '../services/elasticsearch.service';
+
+// One-off: collapse duplicate email documents left by the old random IDs.
+// Run once after the first sync with deterministic IDs: `npm run dedupe`
+async function main(): Promise<void> {
+  const elasticsearchService = new ElasticsearchService();
+  const { scanned, removed } = await elasticsearchService.dedupeEmails();
+  console.log(` Done: ${removed} of ${scanned} documents removed`);
+}
+
+main().catch((error) => {
+  console.error('❌ Dedupe failed:', error);
+  process.exit(1);
+});
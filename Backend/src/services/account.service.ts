@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStore } from '../utils/jsonStore';
+import { encryptSecret, decryptSecret } from '../utils/crypto';
+import { EmailAccount, ManagedAccount, AccountInput } from '../types';
+
+// On disk the password and OAuth2 tokens are only ever kept encrypted
+interface StoredAccount extends Omit<ManagedAccount, 'password'> {
+  password: string;
+}
+
+interface AccountStore {
+  accounts: StoredAccount[];
+  // Environment accounts already imported once, so deleting one sticks
+  importedIds: string[];
+}
+
+export class AccountService {
+  private store = new JsonStore<AccountStore>('accounts.json', { accounts: [], importedIds: [] });
+
+  /**
+   * Seeds the store with accounts defined in the environment. Each one is
+   * imported only once so runtime edits and deletions win over the env.
+   */
+  async importAccounts(accounts: EmailAccount[]): Promise<void> {
+    const { importedIds } = await this.store.get();
+    const missing = accounts.filter(account => account.user && !importedIds.includes(account.id));
+
+    if (missing.length === 0) return;
+
+    const now = new Date().toISOString();
+    await this.store.update(data => {
+      for (const account of missing) {
+        data.accounts.push(this.toStored({ ...account, paused: false, createdAt: now, updatedAt: now }));
+        data.importedIds.push(account.id);
+      }
+    });
+
+    console.log(` Imported ${missing.length} email accounts from environment`);
+  }
+
+  async listAccounts(): Promise<ManagedAccount[]> {
+    const { accounts } = await this.store.get();
+    return accounts.map(account => this.fromStored(account));
+  }
+
+  async getAccount(id: string): Promise<ManagedAccount | undefined> {
+    const { accounts } = await this.store.get();
+    const account = accounts.find(existing => existing.id === id);
+    return account ? this.fromStored(account) : undefined;
+  }
+
+  async createAccount(input: AccountInput): Promise<ManagedAccount> {
+    const now = new Date().toISOString();
+    const account: ManagedAccount = {
+      ...input,
+      id: uuidv4(),
+      paused: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.update(data => {
+      data.accounts.push(this.toStored(account));
+    });
+
+    console.log(` Created email account ${account.user}`);
+    return account;
+  }
+
+  async updateAccount(id: string, changes: Partial<AccountInput> & { paused?: boolean }): Promise<ManagedAccount | undefined> {
+    const current = await this.getAccount(id);
+    if (!current) return undefined;
+
+    const updated: ManagedAccount = {
+      ...current,
+      ...changes,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.store.update(data => {
+      const index = data.accounts.findIndex(existing => existing.id === id);
+      data.accounts[index] = this.toStored(updated);
+    });
+
+    return updated;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    const { accounts } = await this.store.get();
+    if (!accounts.some(existing => existing.id === id)) return false;
+
+    await this.store.update(data => {
+      data.accounts = data.accounts.filter(existing => existing.id !== id);
+    });
+    console.log(` Deleted email account ${id}`);
+    return true;
+  }
+
+  private toStored(account: ManagedAccount): StoredAccount {
+    const stored: StoredAccount = { ...account, password: encryptSecret(account.password || '') };
+
+    if (account.oauth2) {
+      stored.oauth2 = {
+        ...account.oauth2,
+        accessToken: account.oauth2.accessToken && encryptSecret(account.oauth2.accessToken),
+        refreshToken: account.oauth2.refreshToken && encryptSecret(account.oauth2.refreshToken)
+      };
+    }
+    return stored;
+  }
+
+  private fromStored(account: StoredAccount): ManagedAccount {
+    const managed: ManagedAccount = { ...account, password: decryptSecret(account.password) };
+
+    if (account.oauth2) {
+      managed.oauth2 = {
+        ...account.oauth2,
+        accessToken: account.oauth2.accessToken && decryptSecret(account.oauth2.accessToken),
+        refreshToken: account.oauth2.refreshToken && decryptSecret(account.oauth2.refreshToken)
+      };
+    }
+    return managed;
+  }
+}
@@ -1,25 +1,69 @@
-import OpenAI from 'openai';
 import { config } from '../config';
-import { Email, EmailCategory, AICategorizationResult } from '../types';
+import { Email, Category, AICategorizationResult, SimilarExample } from '../types';
+import { LLMProvider } from './llm.service';
+import { CategoryService, FALLBACK_CATEGORY } from './category.service';
+import { FeedbackService } from './feedback.service';
 
 export class AIService {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey
-    });
+  private llm: LLMProvider;
+  private categoryService: CategoryService;
+  private feedbackService: FeedbackService;
+
+  constructor(llm: LLMProvider, categoryService: CategoryService, feedbackService: FeedbackService) {
+    this.llm = llm;
+    this.categoryService = categoryService;
+    this.feedbackService = feedbackService;
   }
 
+  /**
+   * Categorizes an email, recording a failure (Uncategorized) instead of
+   * throwing when the model can't be reached.
+   */
   async categorizeEmail(email: Email): Promise<AICategorizationResult> {
+    try {
+      return await this.classifyEmail(email);
+    } catch (error: any) {
+      console.error(' Error categorizing email:', error);
+      return this.failedCategorization(error);
+    }
+  }
+
+  failedCategorization(error: Error): AICategorizationResult {
+    return {
+      category: FALLBACK_CATEGORY,
+      confidence: 0,
+      reasoning: `Categorization failed: ${error.message}`,
+      provider: this.llm.name,
+      model: this.llm.chatModel,
+      failed: true
+    };
+  }
+
+  /**
+   * Asks the model for a category. Errors (rate limits, timeouts) are
+   * thrown so background jobs can retry.
+   */
+  async classifyEmail(email: Email): Promise<AICategorizationResult> {
+    const allCategories = await this.categoryService.listCategories();
+    const choices = allCategories.filter(category => category.name !== FALLBACK_CATEGORY);
+    const categoryList = choices
+      .map((category, index) => `${index + 1}. ${category.name} - ${category.description}`)
+      .join('\n');
+
+    const examples = await this.findExamples(email, allCategories);
+    const exampleList = examples
+      .map(({ example }) => `From: ${example.from}\nSubject: ${example.subject}\nBody: ${example.body.substring(0, 300)}\nCategory: ${example.label}`)
+      .join('\n---\n');
+
     const prompt = `
 Analyze the following email and categorize it into one of these categories:
-1. Interested - The sender shows interest in a product/service/proposal
-2. Meeting Booked - The email is about scheduling or confirming a meeting
-3. Not Interested - The sender explicitly declines or shows no interest
-4. Spam - The email appears to be spam, promotional, or unsolicited
-5. Out of Office - Automated out-of-office reply
+${categoryList}
 
+If none of them apply, use "${FALLBACK_CATEGORY}".
+${exampleList ? `
+Similar emails that a human has categorized (follow these when they apply):
+${exampleList}
+` : ''}
 Email Details:
 From: ${email.from}
 Subject: ${email.subject}
@@ -33,137 +77,71 @@ Respond in JSON format with:
 }
 `;
 
-    try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert email classifier. Analyze emails and categorize them accurately.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || '{}');
-      
-      return {
-        category: this.mapToEmailCategory(result.category),
-        confidence: result.confidence || 0.5,
-        reasoning: result.reasoning || 'AI categorization'
-      };
-    } catch (error) {
-      console.error(' Error categorizing email:', error);
-      return {
-        category: EmailCategory.UNCATEGORIZED,
-        confidence: 0,
-        reasoning: 'Error during categorization'
-      };
-    }
+    const content = await this.llm.chat(
+      [
+        {
+          role: 'system',
+          content: 'You are an expert email classifier. Analyze emails and categorize them accurately.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      { ...config.llm.categorization, json: true }
+    );
+
+    const result = this.parseJson(content);
+    const confidence = typeof result.confidence === 'number'
+      ? Math.min(Math.max(result.confidence, 0), 1)
+      : 0.5;
+
+    return {
+      category: this.mapToCategory(result.category || '', choices),
+      confidence,
+      reasoning: result.reasoning || 'AI categorization',
+      provider: this.llm.name,
+      model: this.llm.chatModel
+    };
   }
 
-  async batchCategorizeEmails(emails: Email[]): Promise<Map<string, AICategorizationResult>> {
-    const results = new Map<string, AICategorizationResult>();
-    
-    // Process in batches of 5 to avoid rate limits
-    const batchSize = 5;
-    for (let i = 0; i < emails.length; i += batchSize) {
-      const batch = emails.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map(email => this.categorizeEmail(email))
-      );
-      
-      batch.forEach((email, index) => {
-        results.set(email.id, batchResults[index]);
-      });
-
-      // Small delay between batches
-      if (i + batchSize < emails.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+  // Few-shot context is optional; categorization goes ahead without it on failure
+  private async findExamples(email: Email, categories: Category[]): Promise<SimilarExample[]> {
+    const { examples, minScore } = config.llm.fewShot;
+    try {
+      return await this.feedbackService.findSimilar(email, examples, minScore, categories.map(category => category.name));
+    } catch (error: any) {
+      console.error(' Error finding similar examples:', error.message);
+      return [];
     }
-
-    return results;
   }
 
-  private mapToEmailCategory(category: string): EmailCategory {
-    const normalized = category.toLowerCase().trim();
-    
-    if (normalized.includes('interested') && !normalized.includes('not')) {
-      return EmailCategory.INTERESTED;
-    }
-    if (normalized.includes('meeting') || normalized.includes('booked')) {
-      return EmailCategory.MEETING_BOOKED;
-    }
-    if (normalized.includes('not interested') || normalized.includes('decline')) {
-      return EmailCategory.NOT_INTERESTED;
-    }
-    if (normalized.includes('spam')) {
-      return EmailCategory.SPAM;
-    }
-    if (normalized.includes('out of office') || normalized.includes('ooo')) {
-      return EmailCategory.OUT_OF_OFFICE;
+  // Local models don't always honour JSON mode and may wrap the object in prose or code fences
+  private parseJson(content: string): any {
+    try {
+      return JSON.parse(content || '{}');
+    } catch {
+      const match = content.match(/\{[\s\S]*\}/);
+      if (!match) throw new Error(`Model returned no JSON: ${content.slice(0, 200)}`);
+      return JSON.parse(match[0]);
     }
-    
-    return EmailCategory.UNCATEGORIZED;
   }
 
-  async generateSuggestedReply(
-    email: Email,
-    context: string[],
-    productInfo?: string
-  ): Promise<string> {
-    const contextStr = context.join('\n');
-    
-    const prompt = `
-You are an AI assistant helping to draft professional email replies.
-
-Context about our product/service:
-${productInfo || 'Not provided'}
-
-Relevant previous context:
-${contextStr}
+  /**
+   * Matches the model's answer to a category name. Exact matches win;
+   * otherwise the longest name contained in the answer, so "not interested"
+   * isn't read as "Interested".
+   */
+  private mapToCategory(answer: string, categories: Category[]): string {
+    const normalized = answer.toLowerCase().trim();
 
-Incoming email:
-From: ${email.from}
-Subject: ${email.subject}
-Body: ${email.body}
+    const exact = categories.find(category => category.name.toLowerCase() === normalized);
+    if (exact) return exact.name;
 
-Generate a professional, concise reply to this email. The reply should:
-1. Address the sender's main points
-2. Be friendly and professional
-3. Include relevant information from the context
-4. Be ready to send (no placeholders)
-
-Reply:
-`;
+    const contained = [...categories]
+      .sort((a, b) => b.name.length - a.name.length)
+      .find(category => normalized.includes(category.name.toLowerCase()));
 
-    try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional email assistant. Write clear, concise, and professional email replies.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      });
-
-      return response.choices[0].message.content || 'Unable to generate reply';
-    } catch (error) {
-      console.error(' Error generating reply:', error);
-      throw error;
-    }
+    return contained ? contained.name : FALLBACK_CATEGORY;
   }
-}
\ No newline at end of file
+}
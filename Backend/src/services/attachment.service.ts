@@ -0,0 +1,68 @@
+import { Attachment } from 'mailparser';
+import { config } from '../config';
+import { EmailAttachment } from '../types';
+import { BlobStore } from './blobStore.service';
+import { extractText } from '../utils/textExtraction';
+
+export class AttachmentService {
+  private blobStore: BlobStore;
+
+  constructor(blobStore: BlobStore) {
+    this.blobStore = blobStore;
+  }
+
+  /**
+   * Moves parsed attachment bytes into the blob store and extracts their
+   * text. A failure on one attachment only drops its content or text; the
+   * metadata is always kept so the email still indexes.
+   */
+  async storeAttachments(attachments: Attachment[]): Promise<{ attachments: EmailAttachment[]; text: string }> {
+    const stored: EmailAttachment[] = [];
+    const texts: string[] = [];
+
+    for (const attachment of attachments) {
+      const filename = attachment.filename || 'unknown';
+      const metadata: EmailAttachment = {
+        filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        contentId: attachment.contentId
+      };
+      stored.push(metadata);
+
+      if (!attachment.content) continue;
+
+      try {
+        metadata.contentHash = await this.blobStore.put(attachment.content);
+      } catch (error) {
+        console.error(` Error storing attachment ${filename}:`, error);
+      }
+
+      if (attachment.size > config.attachments.maxExtractBytes) continue;
+
+      try {
+        const text = await extractText(
+          attachment.content,
+          attachment.contentType,
+          filename,
+          config.attachments.maxTextLength
+        );
+        if (text) {
+          texts.push(text);
+        }
+      } catch (error) {
+        console.error(` Error extracting text from ${filename}:`, error);
+      }
+    }
+
+    return {
+      attachments: stored,
+      text: texts.join('\n\n').slice(0, config.attachments.maxTextLength)
+    };
+  }
+
+  async getContent(attachment: EmailAttachment): Promise<Buffer | null> {
+    if (!attachment.contentHash) return null;
+    return this.blobStore.get(attachment.contentHash);
+  }
+}
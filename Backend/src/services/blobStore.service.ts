@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { config } from '../config';
+
+export interface BlobStore {
+  // Stores the content and returns its SHA-256 hex digest
+  put(content: Buffer): Promise<string>;
+  get(hash: string): Promise<Buffer | null>;
+  has(hash: string): Promise<boolean>;
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Content-addressed blobs on local disk, sharded by the first two hex
+ * characters of the hash. Identical attachments across emails and accounts
+ * are stored once.
+ */
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  async put(content: Buffer): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const filePath = this.pathFor(hash);
+
+    if (await this.has(hash)) {
+      return hash;
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, content);
+    await fs.rename(tmpPath, filePath);
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    if (!HASH_PATTERN.test(hash)) return null;
+
+    try {
+      return await fs.readFile(this.pathFor(hash));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    if (!HASH_PATTERN.test(hash)) return false;
+
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private pathFor(hash: string): string {
+    return path.join(this.root, hash.slice(0, 2), hash);
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  const { store, dir } = config.attachments;
+
+  switch (store) {
+    case 'local':
+      return new LocalBlobStore(dir);
+    default:
+      throw new Error(`Unknown attachment store: ${store}`);
+  }
+}
@@ -0,0 +1,139 @@
+import { JsonStore } from '../utils/jsonStore';
+import { Category, CategoryInput, EmailCategory } from '../types';
+import { ElasticsearchService } from './elasticsearch.service';
+import { RuleService } from './rule.service';
+import { FeedbackService } from './feedback.service';
+import { NotificationRouteService } from './notificationRoute.service';
+
+interface CategoryStore {
+  categories: Category[];
+}
+
+const SEEDED_AT = new Date(0).toISOString();
+
+// Emails the AI can't place, and emails whose category was deleted, end up here
+export const FALLBACK_CATEGORY = EmailCategory.UNCATEGORIZED;
+
+function seed(id: string, name: string, description: string, color: string, notify = false): Category {
+  return { id, name, description, color, notify, createdAt: SEEDED_AT, updatedAt: SEEDED_AT };
+}
+
+// Installed on first start; users can edit them and add their own
+const DEFAULT_CATEGORIES: Category[] = [
+  seed('interested', EmailCategory.INTERESTED, 'The sender shows interest in a product/service/proposal', '#2e7d32', true),
+  seed('meeting-booked', EmailCategory.MEETING_BOOKED, 'The email is about scheduling or confirming a meeting', '#1565c0'),
+  seed('not-interested', EmailCategory.NOT_INTERESTED, 'The sender explicitly declines or shows no interest', '#c62828'),
+  seed('spam', EmailCategory.SPAM, 'The email appears to be spam, promotional, or unsolicited', '#6d4c41'),
+  seed('out-of-office', EmailCategory.OUT_OF_OFFICE, 'Automated out-of-office reply', '#f9a825'),
+  seed('uncategorized', FALLBACK_CATEGORY, 'None of the other categories apply', '#9e9e9e')
+];
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category';
+}
+
+export class CategoryService {
+  private store = new JsonStore<CategoryStore>('categories.json', { categories: DEFAULT_CATEGORIES });
+  private elasticsearchService: ElasticsearchService;
+  private ruleService: RuleService;
+  private feedbackService: FeedbackService;
+  private notificationRouteService: NotificationRouteService;
+
+  constructor(
+    elasticsearchService: ElasticsearchService,
+    ruleService: RuleService,
+    feedbackService: FeedbackService,
+    notificationRouteService: NotificationRouteService
+  ) {
+    this.elasticsearchService = elasticsearchService;
+    this.ruleService = ruleService;
+    this.feedbackService = feedbackService;
+    this.notificationRouteService = notificationRouteService;
+  }
+
+  async listCategories(): Promise<Category[]> {
+    const { categories } = await this.store.get();
+    return [...categories];
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const { categories } = await this.store.get();
+    return categories.find(category => category.id === id);
+  }
+
+  // Names are unique regardless of case
+  async findByName(name: string): Promise<Category | undefined> {
+    const wanted = name.trim().toLowerCase();
+    const { categories } = await this.store.get();
+    return categories.find(category => category.name.toLowerCase() === wanted);
+  }
+
+  async createCategory(input: CategoryInput): Promise<Category> {
+    const { categories } = await this.store.get();
+    const now = new Date().toISOString();
+
+    // Suffix the slug when another category already uses it
+    const base = slugify(input.name);
+    let id = base;
+    for (let n = 2; categories.some(category => category.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+
+    const category: Category = { ...input, id, createdAt: now, updatedAt: now };
+
+    await this.store.update(data => {
+      data.categories.push(category);
+    });
+
+    console.log(` Created category ${category.name}`);
+    return category;
+  }
+
+  /**
+   * Renaming a category relabels its indexed emails, the rules that assign
+   * it and labelled examples, since all refer to categories by name.
+   */
+  async updateCategory(id: string, changes: Partial<CategoryInput>): Promise<Category | undefined> {
+    const current = await this.getCategory(id);
+    if (!current) return undefined;
+
+    const updated: Category = {
+      ...current,
+      ...changes,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.store.update(data => {
+      const index = data.categories.findIndex(category => category.id === id);
+      data.categories[index] = updated;
+    });
+
+    if (updated.name !== current.name) {
+      await this.ruleService.renameCategory(current.name, updated.name);
+      await this.feedbackService.renameCategory(current.name, updated.name);
+      await this.notificationRouteService.renameCategory(current.name, updated.name);
+      await this.elasticsearchService.renameCategory(current.name, updated.name);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Deletes a category and moves its emails to the fallback category.
+   * Callers must check that no rule still assigns it.
+   */
+  async deleteCategory(id: string): Promise<boolean> {
+    const category = await this.getCategory(id);
+    if (!category) return false;
+
+    await this.store.update(data => {
+      data.categories = data.categories.filter(entry => entry.id !== id);
+    });
+    await this.elasticsearchService.renameCategory(category.name, FALLBACK_CATEGORY);
+
+    console.log(` Deleted category ${category.name}`);
+    return true;
+  }
+}
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { extractAddresses } from '../utils/threading';
+import {
+  DraftOptions,
+  DraftRequest,
+  DraftRevision,
+  DraftRevisionRequest,
+  Email,
+  ReplyDraft,
+  ReplyWarning
+} from '../types';
+import { ElasticsearchService } from './elasticsearch.service';
+import { AccountService } from './account.service';
+import { DEFAULT_REPLY_OPTIONS, ReplyInput, ReplyPipeline } from './replyPipeline.service';
+
+interface DraftStore {
+  drafts: ReplyDraft[];
+}
+
+type ConversationHistory = NonNullable<ReplyInput['history']>;
+
+function replySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject.trim() : `Re: ${subject.trim()}`;
+}
+
+/**
+ * Writes reply drafts for an email from the whole conversation: the earlier
+ * messages of its thread, the sender's earlier emails elsewhere and
+ * relevant knowledge base chunks, through the reply pipeline. Drafts are
+ * kept in DATA_DIR/drafts.json with every revision, so they can be edited
+ * by hand or revised by the model before sending.
+ */
+export class DraftService {
+  private store = new JsonStore<DraftStore>('drafts.json', { drafts: [] });
+  private elasticsearchService: ElasticsearchService;
+  private accountService: AccountService;
+  private replyPipeline: ReplyPipeline;
+
+  constructor(
+    elasticsearchService: ElasticsearchService,
+    accountService: AccountService,
+    replyPipeline: ReplyPipeline
+  ) {
+    this.elasticsearchService = elasticsearchService;
+    this.accountService = accountService;
+    this.replyPipeline = replyPipeline;
+  }
+
+  async listDrafts(emailId: string): Promise<ReplyDraft[]> {
+    const { drafts } = await this.store.get();
+    return drafts.filter(draft => draft.emailId === emailId);
+  }
+
+  async getDraft(id: string): Promise<ReplyDraft | undefined> {
+    const { drafts } = await this.store.get();
+    return drafts.find(draft => draft.id === id);
+  }
+
+  /**
+   * Writes `count` alternative drafts from one retrieval. Each alternative
+   * is a separate generation that sees the ones before it, so they take
+   * different approaches.
+   */
+  async generateDrafts(email: Email, request: DraftRequest = {}): Promise<ReplyDraft[]> {
+    const options: DraftOptions = {
+      tone: request.tone || DEFAULT_REPLY_OPTIONS.tone,
+      length: request.length || DEFAULT_REPLY_OPTIONS.length,
+      language: request.language || DEFAULT_REPLY_OPTIONS.language
+    };
+    const count = Math.min(request.count || 1, config.drafts.maxAlternatives);
+
+    const history = await this.describeConversation(email);
+    const context = await this.replyPipeline.retrieve(email, request.retrieval);
+
+    const results: Array<{ reply: string; warnings: ReplyWarning[] }> = [];
+    for (let index = 0; index < count; index++) {
+      results.push(await this.replyPipeline.run({
+        email,
+        options,
+        context,
+        history,
+        alternatives: results.map(result => result.reply)
+      }));
+    }
+
+    const now = new Date().toISOString();
+    const subject = replySubject(email.subject);
+    const drafts: ReplyDraft[] = results.map(({ reply, warnings }) => ({
+      id: uuidv4(),
+      emailId: email.id,
+      threadId: email.threadId,
+      accountId: email.accountId,
+      subject,
+      body: reply,
+      options,
+      citations: context.citations,
+      warnings,
+      revisions: [{ subject, body: reply, source: 'generated', createdAt: now }],
+      createdAt: now,
+      updatedAt: now
+    }));
+
+    await this.store.update(data => {
+      data.drafts.push(...drafts);
+    });
+
+    console.log(` Generated ${drafts.length} reply drafts for email: ${email.id}`);
+    return drafts;
+  }
+
+  // Saves a hand-edited subject and/or body as a new revision, checked like generated ones
+  async editDraft(id: string, email: Email, changes: { subject?: string; body?: string }): Promise<ReplyDraft | undefined> {
+    const draft = await this.getDraft(id);
+    if (!draft) return undefined;
+
+    const body = changes.body ?? draft.body;
+    const history = await this.describeConversation(email);
+    const { warnings } = this.replyPipeline.postProcess(body, { email, options: draft.options, history }, draft.citations);
+
+    return this.addRevision(id, {
+      subject: changes.subject ?? draft.subject,
+      body,
+      source: 'edited',
+      createdAt: new Date().toISOString()
+    }, warnings);
+  }
+
+  /**
+   * Has the model rewrite the current revision following the instructions
+   * and/or a different tone, length or language, from the same citations.
+   */
+  async reviseDraft(id: string, email: Email, request: DraftRevisionRequest): Promise<ReplyDraft | undefined> {
+    const draft = await this.getDraft(id);
+    if (!draft) return undefined;
+
+    const options: DraftOptions = {
+      tone: request.tone || draft.options.tone,
+      length: request.length || draft.options.length,
+      language: request.language || draft.options.language
+    };
+    const input: ReplyInput = {
+      email,
+      options,
+      history: await this.describeConversation(email),
+      revision: { previous: draft.body, instructions: request.instructions }
+    };
+
+    const generated = await this.replyPipeline.generate(this.replyPipeline.buildPrompt(input, draft.citations));
+    const { reply, warnings } = this.replyPipeline.postProcess(generated, input, draft.citations);
+
+    return this.addRevision(id, {
+      subject: draft.subject,
+      body: reply,
+      source: 'revised',
+      instructions: request.instructions,
+      createdAt: new Date().toISOString()
+    }, warnings, options);
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.store.update(data => {
+      const remaining = data.drafts.filter(draft => draft.id !== id);
+      deleted = remaining.length < data.drafts.length;
+      data.drafts = remaining;
+    });
+    return deleted;
+  }
+
+  private async addRevision(
+    id: string,
+    revision: DraftRevision,
+    warnings: ReplyWarning[],
+    options?: DraftOptions
+  ): Promise<ReplyDraft | undefined> {
+    let updated: ReplyDraft | undefined;
+
+    await this.store.update(data => {
+      const draft = data.drafts.find(entry => entry.id === id);
+      if (!draft) return;
+
+      draft.subject = revision.subject;
+      draft.body = revision.body;
+      if (options) draft.options = options;
+      draft.warnings = warnings;
+      draft.revisions.push(revision);
+      draft.updatedAt = revision.createdAt;
+      updated = draft;
+    });
+
+    return updated;
+  }
+
+  /**
+   * The thread up to this email and the sender's earlier emails outside it,
+   * oldest first, as prompt text. Missing history only makes the draft less
+   * informed, so lookup errors are logged and skipped.
+   */
+  private async describeConversation(email: Email): Promise<ConversationHistory> {
+    const { threadMessages, senderMessages, messageCharacters } = config.drafts;
+    const date = new Date(email.date);
+    const account = await this.accountService.getAccount(email.accountId);
+    const ownAddress = account?.user.toLowerCase();
+
+    const describe = (message: Email): string => {
+      const fromUs = ownAddress !== undefined && extractAddresses([message.from]).includes(ownAddress);
+      return `[${new Date(message.date).toISOString()}] ${fromUs ? 'Us' : message.from}:
+Subject: ${message.subject}
+${(message.body || '').trim().slice(0, messageCharacters)}`;
+    };
+
+    let thread = '';
+    let sender = '';
+
+    try {
+      if (email.threadId) {
+        const earlier = (await this.elasticsearchService.getThreadEmails([email.threadId], true))
+          .filter(message => message.id !== email.id && new Date(message.date) <= date)
+          .slice(-threadMessages);
+        thread = earlier.map(describe).join('\n\n');
+      }
+
+      const address = extractAddresses([email.from])[0];
+      if (address && address !== ownAddress) {
+        const previous = await this.elasticsearchService.findEmailsFromSender(address, date, senderMessages, email.threadId);
+        sender = previous.reverse().map(describe).join('\n\n');
+      }
+    } catch (error: any) {
+      console.error(' Error loading conversation history:', error.message);
+    }
+
+    return { thread, sender };
+  }
+}
@@ -1,6 +1,48 @@
 import { Client } from '@elastic/elasticsearch';
 import { config } from '../config';
-import { Email, SearchQuery, SearchResult } from '../types';
+import { Email, SearchQuery, SearchResult, ThreadQuery, ClassificationInfo, ReviewQueueQuery } from '../types';
+import { createEmailId } from '../utils/emailId';
+
+// Fields a user (or an earlier categorization) may have set that a re-sync
+// of the same message must not overwrite
+const PRESERVED_FIELDS: Array<keyof Email> = ['category', 'classification', 'threadId'];
+
+function copyField<K extends keyof Email>(target: Partial<Email>, source: Email, key: K): void {
+  target[key] = source[key];
+}
+
+const CLASSIFICATION_PROPERTIES = {
+  source: { type: 'keyword' },
+  ruleId: { type: 'keyword' },
+  reasoning: { type: 'text' },
+  confidence: { type: 'float' },
+  provider: { type: 'keyword' },
+  model: { type: 'keyword' },
+  failed: { type: 'boolean' },
+  classifiedAt: { type: 'date' }
+} as const;
+
+// Fields matched exactly (term lookups, collapse, aggregations) that were
+// added after the first version of the index
+const KEYWORD_FIELDS = {
+  uidValidity: { type: 'keyword' },
+  inReplyTo: { type: 'keyword' },
+  references: { type: 'keyword' },
+  threadId: { type: 'keyword' },
+  normalizedSubject: { type: 'keyword' }
+} as const;
+
+// Thread views list messages without their (potentially large) bodies
+const THREAD_SUMMARY_EXCLUDES = ['body', 'html', 'attachmentText'];
+const MAX_THREAD_MESSAGES = 500;
+
+const UPSERT_SCRIPT = `
+  for (entry in params.doc.entrySet()) {
+    if (!params.preserved.contains(entry.getKey()) || ctx._source[entry.getKey()] == null) {
+      ctx._source[entry.getKey()] = entry.getValue();
+    }
+  }
+`;
 
 export class ElasticsearchService {
   private client: Client;
@@ -27,14 +69,29 @@ export class ElasticsearchService {
                 from: { type: 'text' },
                 to: { type: 'text' },
                 cc: { type: 'text' },
+                replyTo: { type: 'text' },
                 subject: { type: 'text' },
                 body: { type: 'text' },
                 html: { type: 'text', index: false },
                 date: { type: 'date' },
                 folder: { type: 'keyword' },
                 uid: { type: 'integer' },
+                ...KEYWORD_FIELDS,
+                headers: { type: 'object', enabled: false },
                 category: { type: 'keyword' },
+                classification: { properties: CLASSIFICATION_PROPERTIES },
                 isRead: { type: 'boolean' },
+                isFlagged: { type: 'boolean' },
+                attachments: {
+                  properties: {
+                    filename: { type: 'text' },
+                    contentType: { type: 'keyword' },
+                    size: { type: 'long' },
+                    contentHash: { type: 'keyword' },
+                    contentId: { type: 'keyword' }
+                  }
+                },
+                attachmentText: { type: 'text' },
                 timestamp: { type: 'date' }
               }
             }
@@ -42,6 +99,7 @@ export class ElasticsearchService {
         });
         console.log(`✅ Elasticsearch index '${this.index}' created`);
       } else {
+        await this.updateMapping();
         console.log(`✅ Elasticsearch index '${this.index}' already exists`);
       }
     } catch (error) {
@@ -50,12 +108,44 @@ export class ElasticsearchService {
     }
   }
 
+  /**
+   * Adds the fields introduced since the index was created. Fields already
+   * mapped with another type (dynamically, before they were declared) can't
+   * be changed in place; those need a reindex and are reported instead.
+   */
+  private async updateMapping(): Promise<void> {
+    const response = await this.client.indices.getMapping({ index: this.index });
+    const existing: Record<string, any> = Object.values(response)[0]?.mappings?.properties || {};
+
+    const conflicts = Object.entries(KEYWORD_FIELDS)
+      .filter(([field]) => existing[field] && existing[field].type !== 'keyword')
+      .map(([field]) => `${field} (${existing[field].type || 'object'})`);
+    const keywordFields = Object.fromEntries(
+      Object.entries(KEYWORD_FIELDS).filter(([field]) => !existing[field] || existing[field].type === 'keyword')
+    );
+
+    // Header names vary per message; keep them out of the dynamic mapping
+    await this.client.indices.putMapping({
+      index: this.index,
+      properties: {
+        ...keywordFields,
+        headers: { type: 'object', enabled: false },
+        classification: { properties: CLASSIFICATION_PROPERTIES }
+      }
+    });
+
+    if (conflicts.length > 0) {
+      console.error(`❌ Elasticsearch index '${this.index}' maps ${conflicts.join(', ')} as something other than keyword; `
+        + 'threads and thread lookups will fail until the index is reindexed (see README)');
+    }
+  }
+
   async indexEmail(email: Email): Promise<void> {
     try {
-      await this.client.index({
+      await this.client.update({
         index: this.index,
         id: email.id,
-        document: email,
+        ...this.upsertBody(email),
         refresh: true
       });
       console.log(` Indexed email: ${email.subject}`);
@@ -65,12 +155,13 @@ export class ElasticsearchService {
     }
   }
 
+  // Throws if any email fails to index, so callers don't treat the batch as done
   async bulkIndexEmails(emails: Email[]): Promise<void> {
     if (emails.length === 0) return;
 
     const operations = emails.flatMap(email => [
-      { index: { _index: this.index, _id: email.id } },
-      email
+      { update: { _index: this.index, _id: email.id } },
+      this.upsertBody(email)
     ]);
 
     try {
@@ -80,16 +171,98 @@ export class ElasticsearchService {
       });
 
       if (result.errors) {
-        console.error(' Bulk indexing had errors');
-      } else {
-        console.log(` Bulk indexed ${emails.length} emails`);
+        const failed = result.items.filter(item => item.update?.error);
+        const reason = failed[0]?.update?.error?.reason || 'unknown error';
+        throw new Error(`Failed to index ${failed.length} of ${emails.length} emails (first: ${failed[0]?.update?._id}: ${reason})`);
       }
+      console.log(` Bulk indexed ${emails.length} emails`);
     } catch (error) {
       console.error(' Error bulk indexing emails:', error);
       throw error;
     }
   }
 
+  private upsertBody(email: Email) {
+    return {
+      script: {
+        source: UPSERT_SCRIPT,
+        lang: 'painless',
+        params: { doc: email, preserved: PRESERVED_FIELDS }
+      },
+      upsert: email
+    };
+  }
+
+  /**
+   * One-off cleanup for indexes populated before email IDs were
+   * deterministic. Copies of the same message (same account, folder and
+   * Message-ID) are collapsed into one document, preferring the one stored
+   * under its canonical ID and carrying over preserved fields.
+   */
+  async dedupeEmails(): Promise<{ scanned: number; removed: number }> {
+    const groups = new Map<string, Array<{ id: string; email: Email }>>();
+    let scanned = 0;
+
+    for await (const response of this.client.helpers.scrollSearch<Email>({
+      index: this.index,
+      size: 500,
+      query: { match_all: {} }
+    })) {
+      for (const hit of response.body.hits.hits) {
+        if (!hit._id || !hit._source) continue;
+        const email = hit._source;
+        scanned++;
+
+        const identity = email.messageId || (email.uid ? `uid:${email.uid}` : `content:${createEmailId(email)}`);
+        const key = [email.accountId, email.folder, identity].join('\u0000');
+        const group = groups.get(key) || [];
+        group.push({ id: hit._id, email });
+        groups.set(key, group);
+      }
+    }
+
+    const operations: any[] = [];
+    let removed = 0;
+
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+
+      const canonical = group.find(entry => entry.id === createEmailId(entry.email));
+      const keeper = canonical || group.reduce((latest, entry) =>
+        new Date(entry.email.timestamp) > new Date(latest.email.timestamp) ? entry : latest
+      );
+
+      const merged: Partial<Email> = {};
+      for (const key of PRESERVED_FIELDS) {
+        if (keeper.email[key] != null) continue;
+        const donor = group.find(entry => entry.email[key] != null);
+        if (donor) {
+          copyField(merged, donor.email, key);
+        }
+      }
+
+      if (Object.keys(merged).length > 0) {
+        operations.push({ update: { _index: this.index, _id: keeper.id } }, { doc: merged });
+      }
+
+      for (const entry of group) {
+        if (entry.id === keeper.id) continue;
+        operations.push({ delete: { _index: this.index, _id: entry.id } });
+        removed++;
+      }
+    }
+
+    if (operations.length > 0) {
+      const result = await this.client.bulk({ refresh: true, operations });
+      if (result.errors) {
+        console.error(' Dedupe had errors');
+      }
+    }
+
+    console.log(` Dedupe scanned ${scanned} emails, removed ${removed} duplicates`);
+    return { scanned, removed };
+  }
+
   async searchEmails(searchQuery: SearchQuery): Promise<SearchResult> {
     const { query, folder, accountId, category, from, to, page = 1, size = 20 } = searchQuery;
 
@@ -100,7 +273,7 @@ export class ElasticsearchService {
       must.push({
         multi_match: {
           query,
-          fields: ['subject^2', 'body', 'from', 'to']
+          fields: ['subject^2', 'body', 'from', 'to', 'attachments.filename', 'attachmentText']
         }
       });
     }
@@ -155,12 +328,231 @@ export class ElasticsearchService {
     }
   }
 
-  async updateEmailCategory(emailId: string, category: string): Promise<void> {
+  /**
+   * Maps Message-IDs to the thread their indexed message belongs to.
+   */
+  async findThreadIdsByMessageIds(messageIds: string[]): Promise<Map<string, string>> {
+    const threads = new Map<string, string>();
+    if (messageIds.length === 0) return threads;
+
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: Math.min(messageIds.length * 2, 10000),
+      _source: ['messageId', 'threadId'],
+      query: {
+        bool: {
+          filter: [
+            { terms: { messageId: messageIds } },
+            { exists: { field: 'threadId' } }
+          ]
+        }
+      }
+    });
+
+    for (const hit of result.hits.hits) {
+      if (hit._source?.threadId) {
+        threads.set(hit._source.messageId, hit._source.threadId);
+      }
+    }
+    return threads;
+  }
+
+  /**
+   * Maps Message-IDs to the thread of an indexed reply that references them,
+   * for messages that arrive after their replies.
+   */
+  async findThreadIdsByReferences(messageIds: string[]): Promise<Map<string, string>> {
+    const threads = new Map<string, string>();
+    if (messageIds.length === 0) return threads;
+
+    const wanted = new Set(messageIds);
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: Math.min(messageIds.length * 2, 10000),
+      _source: ['references', 'threadId'],
+      query: {
+        bool: {
+          filter: [
+            { terms: { references: messageIds } },
+            { exists: { field: 'threadId' } }
+          ]
+        }
+      }
+    });
+
+    for (const hit of result.hits.hits) {
+      const email = hit._source;
+      if (!email?.threadId) continue;
+      for (const reference of email.references || []) {
+        if (wanted.has(reference) && !threads.has(reference)) {
+          threads.set(reference, email.threadId);
+        }
+      }
+    }
+    return threads;
+  }
+
+  async findRecentEmailsBySubject(normalizedSubject: string, since: Date): Promise<Email[]> {
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: 20,
+      _source: { excludes: THREAD_SUMMARY_EXCLUDES },
+      query: {
+        bool: {
+          filter: [
+            { term: { normalizedSubject } },
+            { range: { date: { gte: since.toISOString() } } },
+            { exists: { field: 'threadId' } }
+          ]
+        }
+      },
+      sort: [{ date: { order: 'desc' } }]
+    });
+
+    return result.hits.hits.map(hit => hit._source as Email);
+  }
+
+  // Latest emails from an address sent before a date, optionally outside one thread
+  async findEmailsFromSender(address: string, before: Date, limit: number, excludeThreadId?: string): Promise<Email[]> {
+    if (limit <= 0) return [];
+
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: limit,
+      _source: { excludes: ['html', 'headers', 'attachmentText'] },
+      query: {
+        bool: {
+          must: [{ match_phrase: { from: address } }],
+          filter: [{ range: { date: { lt: before.toISOString() } } }],
+          must_not: excludeThreadId ? [{ term: { threadId: excludeThreadId } }] : []
+        }
+      },
+      sort: [{ date: { order: 'desc' } }]
+    });
+
+    return result.hits.hits.map(hit => hit._source as Email);
+  }
+
+  /**
+   * Messages of the given threads in chronological order. Bodies are left
+   * out unless requested.
+   */
+  async getThreadEmails(threadIds: string[], includeBodies = false): Promise<Email[]> {
+    if (threadIds.length === 0) return [];
+
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: Math.min(threadIds.length * MAX_THREAD_MESSAGES, 10000),
+      _source: includeBodies ? true : { excludes: THREAD_SUMMARY_EXCLUDES },
+      query: { terms: { threadId: threadIds } },
+      sort: [{ date: { order: 'asc' } }]
+    });
+
+    return result.hits.hits.map(hit => hit._source as Email);
+  }
+
+  /**
+   * Pages through threads ordered by their most recent matching message,
+   * using field collapsing on threadId. Returns thread IDs only.
+   */
+  async searchThreadIds(threadQuery: ThreadQuery): Promise<{ threadIds: string[]; total: number }> {
+    const { query, folder, accountId, page = 1, size = 20 } = threadQuery;
+
+    const must: any[] = [];
+    const filter: any[] = [{ exists: { field: 'threadId' } }];
+
+    if (query) {
+      must.push({
+        multi_match: {
+          query,
+          fields: ['subject^2', 'body', 'from', 'to', 'attachments.filename', 'attachmentText']
+        }
+      });
+    }
+
+    if (folder) {
+      filter.push({ term: { folder } });
+    }
+
+    if (accountId) {
+      filter.push({ term: { accountId } });
+    }
+
+    try {
+      const result = await this.client.search<Email>({
+        index: this.index,
+        from: (page - 1) * size,
+        size,
+        _source: ['threadId'],
+        query: {
+          bool: {
+            must: must.length > 0 ? must : [{ match_all: {} }],
+            filter
+          }
+        },
+        collapse: { field: 'threadId' },
+        sort: [{ date: { order: 'desc' } }],
+        aggs: {
+          threads: { cardinality: { field: 'threadId' } }
+        }
+      });
+
+      const threadIds = result.hits.hits
+        .map(hit => hit._source?.threadId)
+        .filter((threadId): threadId is string => Boolean(threadId));
+      const total = (result.aggregations?.threads as { value: number } | undefined)?.value || 0;
+
+      return { threadIds, total };
+    } catch (error) {
+      console.error(' Error searching threads:', error);
+      throw error;
+    }
+  }
+
+  async *scanEmailsWithoutThread(): AsyncGenerator<Email[]> {
+    for await (const response of this.client.helpers.scrollSearch<Email>({
+      index: this.index,
+      size: 500,
+      query: { bool: { must_not: { exists: { field: 'threadId' } } } },
+      sort: [{ date: { order: 'asc' } }]
+    })) {
+      yield response.body.hits.hits
+        .map(hit => hit._source)
+        .filter((email): email is Email => Boolean(email));
+    }
+  }
+
+  // Emails indexed without a category that no classifier has finished with yet
+  async *scanUncategorizedEmailIds(): AsyncGenerator<string[]> {
+    for await (const response of this.client.helpers.scrollSearch<Pick<Email, 'id'>>({
+      index: this.index,
+      size: 1000,
+      _source: ['id'],
+      query: {
+        bool: {
+          must_not: [
+            { exists: { field: 'category' } },
+            { exists: { field: 'classification.source' } }
+          ]
+        }
+      }
+    })) {
+      yield response.body.hits.hits
+        .map(hit => hit._source?.id)
+        .filter((id): id is string => Boolean(id));
+    }
+  }
+
+  async updateEmailCategory(emailId: string, category: string, classification?: ClassificationInfo): Promise<void> {
     try {
+      // Replaced rather than merged so fields from an earlier source don't linger
       await this.client.update({
         index: this.index,
         id: emailId,
-        doc: { category },
+        script: {
+          source: 'ctx._source.category = params.category; ctx._source.classification = params.classification',
+          params: { category, classification: classification || null }
+        },
         refresh: true
       });
       console.log(` Updated email ${emailId} category to ${category}`);
@@ -170,6 +562,200 @@ export class ElasticsearchService {
     }
   }
 
+  async updateEmail(emailId: string, doc: Partial<Email>): Promise<void> {
+    await this.client.update({
+      index: this.index,
+      id: emailId,
+      doc,
+      refresh: true
+    });
+  }
+
+  /**
+   * Applies partial updates to existing documents. Updates for emails that
+   * aren't indexed (yet) are skipped rather than reported as failures.
+   */
+  async bulkUpdateEmails(updates: Array<{ id: string; doc: Partial<Email> }>): Promise<void> {
+    if (updates.length === 0) return;
+
+    const operations = updates.flatMap(({ id, doc }) => [
+      { update: { _index: this.index, _id: id } },
+      { doc }
+    ]);
+
+    try {
+      const result = await this.client.bulk({ refresh: true, operations });
+
+      if (result.errors) {
+        const failed = result.items.filter(item =>
+          item.update?.error && item.update.error.type !== 'document_missing_exception'
+        );
+        if (failed.length > 0) {
+          console.error(` Bulk update had ${failed.length} errors`);
+        }
+      }
+    } catch (error) {
+      console.error(' Error bulk updating emails:', error);
+      throw error;
+    }
+  }
+
+  async deleteEmail(emailId: string): Promise<void> {
+    try {
+      await this.client.delete({
+        index: this.index,
+        id: emailId,
+        refresh: true
+      });
+    } catch (error: any) {
+      if (error.meta?.statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  // Removes a folder's emails indexed under the given UIDVALIDITY
+  async deleteFolderEmails(accountId: string, folder: string, uidValidity: string): Promise<number> {
+    try {
+      const result = await this.client.deleteByQuery({
+        index: this.index,
+        query: {
+          bool: {
+            filter: [
+              { term: { accountId } },
+              { term: { folder } },
+              { term: { uidValidity } }
+            ]
+          }
+        },
+        refresh: true
+      });
+      console.log(` Deleted ${result.deleted || 0} stale emails from ${folder} for account ${accountId}`);
+      return result.deleted || 0;
+    } catch (error) {
+      console.error(' Error deleting stale folder emails:', error);
+      throw error;
+    }
+  }
+
+  async deleteEmailsByAccount(accountId: string): Promise<number> {
+    try {
+      const result = await this.client.deleteByQuery({
+        index: this.index,
+        query: { term: { accountId } },
+        refresh: true
+      });
+      console.log(` Deleted ${result.deleted || 0} emails for account ${accountId}`);
+      return result.deleted || 0;
+    } catch (error) {
+      console.error(' Error deleting emails by account:', error);
+      throw error;
+    }
+  }
+
+  // Relabels every email in a category, e.g. after a rename or delete
+  async renameCategory(from: string, to: string): Promise<number> {
+    const result = await this.client.updateByQuery({
+      index: this.index,
+      query: { term: { category: from } },
+      script: {
+        source: 'ctx._source.category = params.category',
+        params: { category: to }
+      },
+      conflicts: 'proceed',
+      refresh: true
+    });
+    console.log(` Moved ${result.updated || 0} emails from ${from} to ${to}`);
+    return result.updated || 0;
+  }
+
+  /**
+   * AI-categorized emails below the confidence threshold or whose
+   * categorization failed, least confident first.
+   */
+  async searchReviewQueue(reviewQuery: ReviewQueueQuery): Promise<SearchResult> {
+    const { threshold, accountId, category, page = 1, size = 20 } = reviewQuery;
+
+    const filter: any[] = [{ term: { 'classification.source': 'ai' } }];
+    if (accountId) {
+      filter.push({ term: { accountId } });
+    }
+    if (category) {
+      filter.push({ term: { category } });
+    }
+
+    const result = await this.client.search<Email>({
+      index: this.index,
+      from: (page - 1) * size,
+      size,
+      _source: { excludes: ['html'] },
+      query: {
+        bool: {
+          filter,
+          should: [
+            { range: { 'classification.confidence': { lt: threshold } } },
+            { term: { 'classification.failed': true } }
+          ],
+          minimum_should_match: 1
+        }
+      },
+      sort: [
+        { 'classification.confidence': { order: 'asc', unmapped_type: 'float' } },
+        { date: { order: 'desc' } }
+      ]
+    });
+
+    const total = typeof result.hits.total === 'number'
+      ? result.hits.total
+      : result.hits.total?.value || 0;
+
+    return {
+      emails: result.hits.hits.map(hit => hit._source as Email),
+      total,
+      page,
+      size
+    };
+  }
+
+  async getCategoryCounts(accountId?: string): Promise<Record<string, number>> {
+    const result = await this.client.search({
+      index: this.index,
+      size: 0,
+      query: accountId ? { term: { accountId } } : { match_all: {} },
+      aggs: {
+        categories: { terms: { field: 'category', size: 1000 } }
+      }
+    });
+
+    const buckets = (result.aggregations?.categories as { buckets: Array<{ key: string; doc_count: number }> } | undefined)?.buckets || [];
+    return Object.fromEntries(buckets.map(bucket => [bucket.key, bucket.doc_count]));
+  }
+
+  async getRecentEmails(limit: number, accountId?: string): Promise<Email[]> {
+    const result = await this.client.search<Email>({
+      index: this.index,
+      size: Math.min(limit, 10000),
+      _source: { excludes: ['html'] },
+      query: accountId ? { term: { accountId } } : { match_all: {} },
+      sort: [{ date: { order: 'desc' } }]
+    });
+
+    return result.hits.hits.map(hit => hit._source as Email);
+  }
+
+  async getEmailsByIds(emailIds: string[]): Promise<Email[]> {
+    if (emailIds.length === 0) return [];
+
+    const result = await this.client.mget<Email>({
+      index: this.index,
+      ids: emailIds
+    });
+
+    return result.docs
+      .map(doc => ('found' in doc && doc.found ? doc._source : undefined))
+      .filter((email): email is Email => Boolean(email));
+  }
+
   async getEmailById(emailId: string): Promise<Email | null> {
     try {
       const result = await this.client.get({
@@ -1,45 +1,314 @@
-import { EmailAccount, Email, EmailCategory } from '../types';
+import {
+  AICategorizationResult,
+  CategorizeJobPayload,
+  ClassificationInfo,
+  DigestJobPayload,
+  Job,
+  NotificationRoute,
+  NotifyJobPayload,
+  EmailAccount,
+  EmailCategory,
+  Email,
+  ReplyRequest,
+  AccountStatus,
+  ConnectionTestResult,
+  EmailUpdate,
+  EmailUpdateResult,
+  FlagUpdate
+} from '../types';
 import { ImapService } from './imap.services';
+import { SmtpService } from './smtp.service';
 import { ElasticsearchService } from './elasticsearch.service';
 import { AIService } from './ai.service';
-import { NotificationService } from './notification.services';
+import { DEFAULT_DIGEST_INTERVAL_MINUTES, DigestMessage, NotificationService } from './notification.services';
+import { NotificationRouteService } from './notificationRoute.service';
+import { SyncStateService } from './syncState.service';
+import { OAuthService } from './oauth.service';
+import { AttachmentService } from './attachment.service';
+import { ThreadService } from './thread.service';
+import { RuleService } from './rule.service';
+import { CategoryService } from './category.service';
+import { FeedbackService } from './feedback.service';
+import { JobQueueService } from './jobQueue.service';
+import { WebhookService, emailEventData } from './webhook.service';
+import { config } from '../config';
+import { createEmailId } from '../utils/emailId';
+import { describeConnectionError } from '../utils/tls';
+import { quietHoursEnd } from '../utils/quietHours';
+
+// Stand-in for test notifications when no email is given
+const SAMPLE_EMAIL: Email = {
+  id: 'sample',
+  accountId: 'sample',
+  messageId: '<sample@onebox.local>',
+  from: 'Jane Doe <jane@example.com>',
+  to: ['you@example.com'],
+  subject: 'Re: Your proposal',
+  body: 'Thanks for sending this over. We are interested and would like to schedule a call next week.',
+  date: new Date(),
+  folder: 'INBOX',
+  uid: 0,
+  category: 'Interested',
+  classification: { source: 'ai', reasoning: 'Sample email', confidence: 0.9 },
+  isRead: false,
+  attachments: [],
+  timestamp: new Date()
+};
+
+function aiClassification(result: AICategorizationResult): ClassificationInfo {
+  return {
+    source: 'ai',
+    reasoning: result.reasoning,
+    confidence: result.confidence,
+    provider: result.provider,
+    model: result.model,
+    failed: result.failed,
+    classifiedAt: new Date().toISOString()
+  };
+}
 
 export class EmailSyncService {
   private imapServices: Map<string, ImapService> = new Map();
+  private smtpServices: Map<string, SmtpService> = new Map();
+  private accounts: Map<string, EmailAccount> = new Map();
+  private startingAccounts: Set<string> = new Set();
+  // Starts and stops of an account run one after another
+  private accountOperations: Map<string, Promise<void>> = new Map();
+  private accountErrors: Map<string, string> = new Map();
   private elasticsearchService: ElasticsearchService;
   private aiService: AIService;
   private notificationService: NotificationService;
+  private syncStateService: SyncStateService;
+  private oauthService: OAuthService;
+  private attachmentService: AttachmentService;
+  private threadService: ThreadService;
+  private ruleService: RuleService;
+  private categoryService: CategoryService;
+  private feedbackService: FeedbackService;
+  private jobQueue: JobQueueService;
+  private notificationRouteService: NotificationRouteService;
+  private webhookService: WebhookService;
 
   constructor(
     elasticsearchService: ElasticsearchService,
     aiService: AIService,
-    notificationService: NotificationService
+    notificationService: NotificationService,
+    syncStateService: SyncStateService,
+    oauthService: OAuthService,
+    attachmentService: AttachmentService,
+    threadService: ThreadService,
+    ruleService: RuleService,
+    categoryService: CategoryService,
+    feedbackService: FeedbackService,
+    jobQueue: JobQueueService,
+    notificationRouteService: NotificationRouteService,
+    webhookService: WebhookService
   ) {
     this.elasticsearchService = elasticsearchService;
     this.aiService = aiService;
     this.notificationService = notificationService;
+    this.syncStateService = syncStateService;
+    this.oauthService = oauthService;
+    this.attachmentService = attachmentService;
+    this.threadService = threadService;
+    this.ruleService = ruleService;
+    this.categoryService = categoryService;
+    this.feedbackService = feedbackService;
+    this.jobQueue = jobQueue;
+    this.notificationRouteService = notificationRouteService;
+    this.webhookService = webhookService;
+    this.registerJobHandlers();
+  }
+
+  private registerJobHandlers(): void {
+    this.jobQueue.register<CategorizeJobPayload>('categorize', {
+      run: job => this.runCategorizeJob(job),
+      onFailed: (job, error) => this.recordCategorizeFailure(job, error)
+    }, config.jobs.categorize);
+
+    this.jobQueue.register<NotifyJobPayload>('notify', {
+      run: job => this.runNotifyJob(job)
+    }, config.jobs.notify);
+
+    this.jobQueue.register<DigestJobPayload>('digest', {
+      run: job => this.runDigestJob(job),
+      onFailed: job => this.dropDigest(job)
+    }, config.jobs.notify);
+  }
+
+  /**
+   * Queues categorization for emails that were indexed without a category
+   * but have no categorize job, e.g. after a crash between indexing and
+   * enqueueing. Run at startup, before any account syncs.
+   */
+  async requeueUncategorizedEmails(): Promise<number> {
+    const queued = new Set((await this.jobQueue.activeJobs<CategorizeJobPayload>('categorize')).map(job => job.payload.emailId));
+    let requeued = 0;
+
+    for await (const emailIds of this.elasticsearchService.scanUncategorizedEmailIds()) {
+      const missing = emailIds.filter(emailId => !queued.has(emailId));
+      await this.jobQueue.enqueueMany<CategorizeJobPayload>('categorize', missing.map(emailId => ({ emailId })));
+      requeued += missing.length;
+    }
+
+    if (requeued > 0) {
+      console.log(` Queued categorization for ${requeued} uncategorized emails`);
+    }
+    return requeued;
   }
 
   async initializeAccounts(accounts: EmailAccount[]): Promise<void> {
     console.log(`Initializing ${accounts.length} email accounts...`);
 
     for (const account of accounts) {
+      await this.startAccount(account);
+    }
+
+    console.log(` Email accounts initialized`);
+  }
+
+  /**
+   * Connects and syncs an account, recording failures for status reporting
+   * instead of throwing. Safe to call for an account that is already running
+   * or still starting; the earlier service is shut down first.
+   */
+  async startAccount(account: EmailAccount): Promise<void> {
+    await this.cancelAccount(account.id);
+
+    await this.serializeAccount(account.id, async () => {
+      this.startingAccounts.add(account.id);
+      this.accountErrors.delete(account.id);
+
+      await this.teardownAccount(account.id);
+
+      // Registered before connecting so a stop or restart meanwhile can cancel it
+      const imapService = new ImapService(account, this.syncStateService, this.oauthService, this.attachmentService);
+      this.imapServices.set(account.id, imapService);
+      this.accounts.set(account.id, account);
+
       try {
-        await this.initializeAccount(account);
-      } catch (error) {
+        await this.initializeAccount(account, imapService);
+      } catch (error: any) {
+        if (this.imapServices.get(account.id) !== imapService) {
+          console.log(` Start of ${account.user} cancelled`);
+          return;
+        }
         console.error(` Failed to initialize account ${account.user}:`, error);
+        this.accountErrors.set(account.id, error.message || String(error));
+        await this.teardownAccount(account.id);
+      } finally {
+        this.startingAccounts.delete(account.id);
       }
+    });
+  }
+
+  async stopAccount(accountId: string): Promise<void> {
+    await this.cancelAccount(accountId);
+    await this.serializeAccount(accountId, () => this.teardownAccount(accountId));
+  }
+
+  private serializeAccount(accountId: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.accountOperations.get(accountId) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(operation);
+
+    this.accountOperations.set(accountId, run);
+    run.catch(() => undefined).then(() => {
+      if (this.accountOperations.get(accountId) === run) this.accountOperations.delete(accountId);
+    });
+    return run;
+  }
+
+  /**
+   * Disconnects the account's IMAP service right away, without waiting for
+   * a start in progress; that start then fails fast and unwinds.
+   */
+  private async cancelAccount(accountId: string): Promise<void> {
+    const imapService = this.imapServices.get(accountId);
+    if (!imapService) return;
+
+    this.imapServices.delete(accountId);
+    imapService.removeAllListeners('flagsChanged');
+    await imapService.disconnect();
+  }
+
+  private async teardownAccount(accountId: string): Promise<void> {
+    await this.cancelAccount(accountId);
+    this.smtpServices.get(accountId)?.close();
+
+    this.smtpServices.delete(accountId);
+    this.accounts.delete(accountId);
+  }
+
+  async removeAccount(accountId: string): Promise<void> {
+    await this.stopAccount(accountId);
+    await this.syncStateService.clear(accountId);
+    this.accountErrors.delete(accountId);
+  }
+
+  getAccountStatus(accountId: string): { status: AccountStatus; error?: string } {
+    if (this.startingAccounts.has(accountId)) {
+      return { status: 'connecting' };
+    }
+    if (this.imapServices.has(accountId)) {
+      return { status: 'active' };
     }
 
-    console.log(` Email accounts initialized`);
+    const error = this.accountErrors.get(accountId);
+    return error ? { status: 'error', error } : { status: 'stopped' };
   }
 
-  private async initializeAccount(account: EmailAccount): Promise<void> {
-    const imapService = new ImapService(account);
-    
-    // Setup event handlers
-    imapService.on('newEmail', async (email: Email) => {
-      await this.handleNewEmail(email);
+  async testAccount(account: EmailAccount): Promise<ConnectionTestResult> {
+    const result: ConnectionTestResult = { imap: { success: false } };
+
+    try {
+      await new ImapService(account, this.syncStateService, this.oauthService, this.attachmentService).verify();
+      result.imap.success = true;
+    } catch (error: any) {
+      result.imap = { success: false, ...this.connectionFailure(error) };
+    }
+
+    if (account.smtp) {
+      const smtpService = new SmtpService(account, this.oauthService);
+      try {
+        await smtpService.verify();
+        result.smtp = { success: true };
+      } catch (error: any) {
+        result.smtp = { success: false, ...this.connectionFailure(error) };
+      } finally {
+        smtpService.close();
+      }
+    }
+
+    return result;
+  }
+
+  private connectionFailure(error: any): { error: string; certificateError?: string } {
+    const { message, certificateError } = describeConnectionError(error);
+    return { error: message, certificateError };
+  }
+
+  private async initializeAccount(account: EmailAccount, imapService: ImapService): Promise<void> {
+    const assertActive = () => {
+      if (this.imapServices.get(account.id) !== imapService) {
+        throw new Error(`Start of ${account.user} was cancelled`);
+      }
+    };
+
+    // Setup event handlers; a folder's sync state only moves on once its emails are indexed
+    imapService.onNewEmails(async (emails: Email[], backfill: boolean) => {
+      console.log(` Indexing ${emails.length} ${backfill ? 'backfilled' : 'new'} emails for ${account.user}...`);
+      await this.categorizeAndIndexEmails(emails, backfill);
+    });
+
+    // Emails indexed under a folder's old UIDVALIDITY would otherwise show up twice after its backfill
+    imapService.onUidValidityChange(async (folder: string, staleUidValidity: string) => {
+      await this.elasticsearchService.deleteFolderEmails(account.id, folder, staleUidValidity);
+    });
+
+    imapService.on('flagsChanged', (updates: FlagUpdate[]) => {
+      this.applyFlagUpdates(updates).catch(error => {
+        console.error(` Error applying flag changes for ${account.user}:`, error);
+      });
     });
 
     imapService.on('error', (error) => {
@@ -50,88 +319,519 @@ export class EmailSyncService {
       console.log(` IMAP connection ended for ${account.user}`);
     });
 
-    // Connect to IMAP
-    await imapService.connect();
-  // imapflow connect already opens mailbox and polling is started in connect()
+    // Connect to IMAP; don't leave a half-initialized service retrying in the background
+    try {
+      await imapService.connect();
+    } catch (error) {
+      await imapService.disconnect();
+      throw error;
+    }
+    assertActive();
 
-    // Fetch last 30 days of emails
-    console.log(` Fetching last 30 days of emails for ${account.user}...`);
-    const emails = await imapService.fetchLast30Days();
-    
-    if (emails.length > 0) {
-      console.log(` Categorizing ${emails.length} emails for ${account.user}...`);
-      await this.categorizeAndIndexEmails(emails);
+    if (account.smtp) {
+      this.smtpServices.set(account.id, new SmtpService(account, this.oauthService));
     }
 
-  // Real-time updates handled by ImapService polling after connect()
+    // Resume from the persisted sync state (last 30 days on first run)
+    console.log(` Fetching unsynced emails for ${account.user}...`);
+    await imapService.fetchNewEmails();
+    assertActive();
+
+    // Real-time updates start once the backlog is indexed (IDLE, or polling as fallback)
+    imapService.startRealtimeUpdates();
 
-    this.imapServices.set(account.id, imapService);
     console.log(` Account ${account.user} initialized and syncing`);
   }
 
-  private async categorizeAndIndexEmails(emails: Email[]): Promise<void> {
-    // Categorize emails in batches
-    const categorizations = await this.aiService.batchCategorizeEmails(emails);
+  /**
+   * Applies classification rules; returns true when a rule settled the
+   * category so the AI isn't needed.
+   */
+  private async applyRules(email: Email): Promise<boolean> {
+    const match = await this.ruleService.evaluate(email);
+    if (!match) return false;
 
-    // Update emails with categories
-    emails.forEach(email => {
-      const result = categorizations.get(email.id);
-      if (result) {
-        email.category = result.category;
+    email.category = match.category;
+    email.classification = {
+      source: 'rule',
+      ruleId: match.rule.id,
+      reasoning: match.rule.explanation,
+      classifiedAt: new Date().toISOString()
+    };
+    return match.skipAI;
+  }
+
+  /**
+   * Applies rules and indexes the emails right away; the rest are left
+   * for background categorization jobs so syncing never waits on the AI.
+   * A backfill doesn't announce email.received; those emails aren't new.
+   */
+  private async categorizeAndIndexEmails(emails: Email[], backfill: boolean): Promise<void> {
+    const needsAI: Email[] = [];
+    for (const email of emails) {
+      if (!await this.applyRules(email)) {
+        needsAI.push(email);
       }
-    });
+    }
 
     // Index in Elasticsearch
+    await this.threadService.assignThreads(emails);
     await this.elasticsearchService.bulkIndexEmails(emails);
+    if (!backfill) {
+      await this.webhookService.emitMany('email.received', emails.map(emailEventData));
+    }
 
-    // Handle interested emails
-    const interestedEmails = emails.filter(
-      email => email.category === EmailCategory.INTERESTED
-    );
+    await this.jobQueue.enqueueMany<CategorizeJobPayload>('categorize', needsAI.map(email => ({ emailId: email.id })));
 
-    for (const email of interestedEmails) {
-      await this.notificationService.handleInterestedEmail(email);
+    // Rule-assigned categories are final; the rest follow from the categorize jobs
+    for (const email of emails) {
+      if (!needsAI.includes(email)) {
+        await this.categorized(email);
+      }
     }
   }
 
-  private async handleNewEmail(email: Email): Promise<void> {
-    console.log(` New email received: ${email.subject}`);
+  // Webhook events and notification routes for a newly categorized email
+  private async categorized(email: Email): Promise<void> {
+    await this.emitCategorized(email);
+    await this.enqueueNotifications(email);
+  }
+
+  private async emitCategorized(email: Email): Promise<void> {
+    await this.webhookService.emit('email.categorized', emailEventData(email));
+    if (email.category === EmailCategory.INTERESTED) {
+      await this.webhookService.emit('email.interested', emailEventData(email));
+    }
+  }
+
+  // One job per matching notification route that hasn't notified about this email yet
+  private async enqueueNotifications(email: Email): Promise<void> {
+    if (!email.category) return;
+
+    const category = await this.categoryService.findByName(email.category);
+    const routes: NotificationRoute[] = [];
+    for (const route of await this.notificationRouteService.matchingRoutes(email, category)) {
+      if (!await this.notificationService.wasNotified(route.id, email.id)) {
+        routes.push(route);
+      }
+    }
+
+    await this.jobQueue.enqueueMany<NotifyJobPayload>('notify', routes.map(route => ({
+      emailId: email.id,
+      routeId: route.id
+    })));
+  }
+
+  private async runCategorizeJob(job: Job<CategorizeJobPayload>): Promise<void> {
+    const email = await this.elasticsearchService.getEmailById(job.payload.emailId);
+
+    // Deleted or moved since, or categorized another way (e.g. by hand) meanwhile
+    if (!email || email.classification) return;
+
+    const categorization = await this.aiService.classifyEmail(email);
+    await this.elasticsearchService.updateEmailCategory(email.id, categorization.category, aiClassification(categorization));
+    console.log(` Email ${email.id} categorized as: ${categorization.category}`);
+
+    await this.categorized({
+      ...email,
+      category: categorization.category,
+      classification: aiClassification(categorization)
+    });
+  }
+
+  // Out of retries: record the failure so the email shows up in the review queue
+  private async recordCategorizeFailure(job: Job<CategorizeJobPayload>, error: Error): Promise<void> {
+    const email = await this.elasticsearchService.getEmailById(job.payload.emailId);
+    if (!email || email.classification) return;
+
+    const categorization = this.aiService.failedCategorization(error);
+    await this.elasticsearchService.updateEmailCategory(email.id, categorization.category, aiClassification(categorization));
+  }
+
+  private async runNotifyJob(job: Job<NotifyJobPayload>): Promise<void> {
+    const email = await this.elasticsearchService.getEmailById(job.payload.emailId);
+    if (!email?.category) return;
+
+    // Deleted or switched off since the job was queued, or already sent (or being sent)
+    const route = await this.notificationRouteService.getRoute(job.payload.routeId);
+    if (!route?.enabled || !await this.notificationService.claimNotification(route.id, email.id)) return;
 
     try {
-      // Categorize the email
-      const categorization = await this.aiService.categorizeEmail(email);
-      email.category = categorization.category;
+      await this.notifyRoute(route, email);
+    } finally {
+      this.notificationService.releaseNotification(route.id, email.id);
+    }
+  }
+
+  private async notifyRoute(route: NotificationRoute, email: Email): Promise<void> {
+    const hold = async (delayMs: number) => {
+      const started = await this.notificationService.addToDigest(route, email);
+      if (started) {
+        await this.jobQueue.enqueue<DigestJobPayload>('digest', { routeId: route.id }, delayMs);
+      }
+      await this.notificationService.recordNotified(route.id, email.id);
+    };
 
-      console.log(`  Email categorized as: ${categorization.category}`);
+    if (route.channel.type === 'email-digest') {
+      const intervalMinutes = route.channel.intervalMinutes || DEFAULT_DIGEST_INTERVAL_MINUTES;
+      return hold(intervalMinutes * 60_000);
+    }
 
-      // Index in Elasticsearch
-      await this.elasticsearchService.indexEmail(email);
+    const quietUntil = route.quietHours ? quietHoursEnd(route.quietHours) : undefined;
+    if (quietUntil) {
+      return hold(quietUntil.getTime() - Date.now());
+    }
 
-      // If interested, trigger notifications
-      if (email.category === EmailCategory.INTERESTED) {
-        await this.notificationService.handleInterestedEmail(email);
+    // Join a summary that is already waiting rather than overtaking it
+    if ((await this.notificationService.pendingDigest(route.id)).length > 0) {
+      return hold(0);
+    }
+
+    const throttledFor = this.notificationService.takeThrottleSlot(route);
+    if (throttledFor > 0) {
+      return hold(throttledFor);
+    }
+
+    const category = await this.categoryService.findByName(email.category!);
+    await this.notificationService.deliver(route, email, category);
+    await this.notificationService.recordNotified(route.id, email.id);
+  }
+
+  /**
+   * Sends a route's held emails: the email digest, or one summary message
+   * for emails held back by quiet hours or the throttle.
+   */
+  private async runDigestJob(job: Job<DigestJobPayload>): Promise<void> {
+    const items = await this.notificationService.pendingDigest(job.payload.routeId);
+    if (items.length === 0) return;
+
+    const route = await this.notificationRouteService.getRoute(job.payload.routeId);
+    if (route) {
+      // Quiet hours may have started since the digest was scheduled
+      const quietUntil = route.quietHours ? quietHoursEnd(route.quietHours) : undefined;
+      if (quietUntil) {
+        await this.jobQueue.enqueue<DigestJobPayload>('digest', { routeId: route.id }, quietUntil.getTime() - Date.now());
+        return;
+      }
+
+      if (route.channel.type === 'email-digest') {
+        await this.sendDigest(route, this.notificationService.renderDigest(route, items));
+      } else {
+        await this.notificationService.deliverSummary(route, items);
       }
-    } catch (error) {
-      console.error(' Error handling new email:', error);
     }
+
+    await this.notificationService.clearDigest(job.payload.routeId, items.map(item => item.emailId));
+  }
+
+  // Out of retries: drop the items so the next email starts a fresh digest
+  private async dropDigest(job: Job<DigestJobPayload>): Promise<void> {
+    const items = await this.notificationService.pendingDigest(job.payload.routeId);
+    await this.notificationService.clearDigest(job.payload.routeId, items.map(item => item.emailId));
+    console.warn(`  Dropped ${items.length} digest items for route ${job.payload.routeId}`);
   }
 
-  async recategorizeEmail(emailId: string): Promise<void> {
+  private async sendDigest(route: NotificationRoute, message: DigestMessage): Promise<void> {
+    const smtpService = this.smtpServices.get(route.channel.accountId || '');
+    if (!smtpService) {
+      throw new Error(`SMTP is not available for account ${route.channel.accountId}`);
+    }
+
+    await smtpService.sendMessage({ to: route.channel.to || [], ...message });
+  }
+
+  /**
+   * Sends one notification through a route right away, ignoring its
+   * conditions. Uses a sample email unless an email ID is given; digest
+   * routes get a digest containing just that email.
+   */
+  async testRoute(route: NotificationRoute, emailId?: string): Promise<boolean> {
+    const email = emailId ? await this.elasticsearchService.getEmailById(emailId) : SAMPLE_EMAIL;
+    if (!email) return false;
+
+    if (route.channel.type === 'email-digest') {
+      const item = this.notificationService.toDigestItem(email);
+      await this.sendDigest(route, this.notificationService.renderDigest(route, [item]));
+      return true;
+    }
+
+    const category = email.category ? await this.categoryService.findByName(email.category) : undefined;
+    await this.notificationService.deliver(route, email, category);
+    return true;
+  }
+
+  // Flag changes made in other clients; the document ID follows from the UID
+  private async applyFlagUpdates(updates: FlagUpdate[]): Promise<void> {
+    await this.elasticsearchService.bulkUpdateEmails(updates.map(update => ({
+      id: createEmailId(update),
+      doc: { isRead: update.isRead, isFlagged: update.isFlagged }
+    })));
+  }
+
+  /**
+   * Writes read/flag changes and moves back to the IMAP server, then mirrors
+   * them in the index. Emails are grouped by account and folder so each
+   * group is a single STORE or MOVE.
+   */
+  async updateEmails(emails: Email[], changes: EmailUpdate): Promise<EmailUpdateResult[]> {
+    return this.forEachMailbox(emails, group => this.updateMailboxGroup(group, changes));
+  }
+
+  async deleteEmails(emails: Email[], permanent: boolean): Promise<EmailUpdateResult[]> {
+    return this.forEachMailbox(emails, async group => {
+      const { accountId, folder, uidValidity } = group[0];
+      const imapService = this.requireImapService(accountId);
+
+      await imapService.deleteMessages(folder, uidValidity, group.map(email => email.uid), permanent);
+
+      for (const email of group) {
+        await this.elasticsearchService.deleteEmail(email.id);
+      }
+      return group.map(email => ({ id: email.id, success: true }));
+    });
+  }
+
+  private async forEachMailbox(
+    emails: Email[],
+    apply: (group: Email[]) => Promise<EmailUpdateResult[]>
+  ): Promise<EmailUpdateResult[]> {
+    const results: EmailUpdateResult[] = [];
+    const groups = new Map<string, Email[]>();
+
+    for (const email of emails) {
+      // Sent copies that couldn't be appended only exist in the index
+      if (!email.uid) {
+        results.push({ id: email.id, success: false, error: 'Email is not stored on the IMAP server' });
+        continue;
+      }
+      const key = [email.accountId, email.folder, email.uidValidity].join('\u0000');
+      const group = groups.get(key) || [];
+      group.push(email);
+      groups.set(key, group);
+    }
+
+    for (const group of groups.values()) {
+      try {
+        results.push(...await apply(group));
+      } catch (error: any) {
+        console.error(` Error updating emails in ${group[0].folder}:`, error);
+        results.push(...group.map(email => ({ id: email.id, success: false, error: error.message })));
+      }
+    }
+
+    return results;
+  }
+
+  private async updateMailboxGroup(emails: Email[], changes: EmailUpdate): Promise<EmailUpdateResult[]> {
+    const { accountId, folder, uidValidity } = emails[0];
+    const imapService = this.requireImapService(accountId);
+    const uids = emails.map(email => email.uid);
+
+    const flags: Partial<Email> = {};
+    const add: string[] = [];
+    const remove: string[] = [];
+    if (changes.isRead !== undefined) {
+      flags.isRead = changes.isRead;
+      (changes.isRead ? add : remove).push('\\Seen');
+    }
+    if (changes.isFlagged !== undefined) {
+      flags.isFlagged = changes.isFlagged;
+      (changes.isFlagged ? add : remove).push('\\Flagged');
+    }
+
+    let destination: string | undefined;
+    if (changes.archive) {
+      // Gmail has no Archive folder; moving to All Mail removes the Inbox label
+      destination = await imapService.resolveFolder('\\Archive') || await imapService.resolveFolder('\\All');
+      if (!destination) {
+        throw new Error(`No archive folder found for account ${accountId}`);
+      }
+    } else if (changes.folder) {
+      destination = await imapService.resolveFolder(changes.folder);
+      if (!destination) {
+        throw new Error(`Folder ${changes.folder} not found`);
+      }
+    }
+
+    if (add.length > 0 || remove.length > 0) {
+      await imapService.updateFlags(folder, uidValidity, uids, add, remove);
+    }
+
+    const updated = emails.map(email => ({ ...email, ...flags }));
+
+    if (!destination || destination === folder) {
+      if (Object.keys(flags).length > 0) {
+        await this.elasticsearchService.bulkUpdateEmails(updated.map(email => ({ id: email.id, doc: flags })));
+      }
+      return updated.map(email => ({ id: email.id, success: true, email }));
+    }
+
+    // A moved message has a new UID, so it is re-indexed under the ID the
+    // destination folder's sync will derive for it
+    const moved = await imapService.moveMessages(folder, uidValidity, uids, destination);
+    let destinationValidity = moved.uidValidity;
+    const newUids = new Map<Email, number>();
+    for (const email of updated) {
+      const uid = moved.uidMap.get(email.uid);
+      if (uid) newUids.set(email, uid);
+    }
+
+    // Without UIDPLUS the server doesn't say, so look the messages up by Message-ID
+    const unmapped = updated.filter(email => !newUids.has(email) && email.messageId);
+    if (unmapped.length > 0) {
+      const found = await imapService.findUidsByMessageId(moved.folder, unmapped.map(email => email.messageId));
+      destinationValidity = found.uidValidity;
+      for (const email of unmapped) {
+        const uid = found.uids.get(email.messageId);
+        if (uid) newUids.set(email, uid);
+      }
+    }
+
+    // The rest are dropped from the index and picked up by the destination's sync, if it is synced
+    const relocated = new Map<Email, Email>();
+    for (const email of updated) {
+      const uid = newUids.get(email);
+      if (!uid) continue;
+      relocated.set(email, {
+        ...email,
+        id: createEmailId({ accountId, folder: moved.folder, uidValidity: destinationValidity, uid, messageId: email.messageId }),
+        folder: moved.folder,
+        uid,
+        uidValidity: destinationValidity
+      });
+    }
+
+    for (const email of emails) {
+      await this.elasticsearchService.deleteEmail(email.id);
+    }
+    await this.elasticsearchService.bulkIndexEmails([...relocated.values()]);
+
+    return updated.map(email => ({ id: email.id, success: true, email: relocated.get(email) }));
+  }
+
+  private requireImapService(accountId: string): ImapService {
+    const imapService = this.imapServices.get(accountId);
+    if (!imapService) {
+      throw new Error(`Account ${accountId} is not connected`);
+    }
+    return imapService;
+  }
+
+  /**
+   * Runs rules and the AI again. Emails whose category was set by a human
+   * are left alone (returns false) unless forced.
+   */
+  async recategorizeEmail(emailId: string, force = false): Promise<boolean> {
     const email = await this.elasticsearchService.getEmailById(emailId);
     if (!email) {
       throw new Error('Email not found');
     }
 
+    if (email.classification?.source === 'human' && !force) {
+      return false;
+    }
+
+    if (await this.applyRules(email)) {
+      await this.elasticsearchService.updateEmailCategory(emailId, email.category!, email.classification);
+      console.log(` Email ${emailId} recategorized to ${email.category} by rule ${email.classification!.ruleId}`);
+      await this.categorized(email);
+      return true;
+    }
+
     const categorization = await this.aiService.categorizeEmail(email);
-    await this.elasticsearchService.updateEmailCategory(emailId, categorization.category);
+    const classification = aiClassification(categorization);
+    await this.elasticsearchService.updateEmailCategory(emailId, categorization.category, classification);
 
     console.log(` Email ${emailId} recategorized to ${categorization.category}`);
+    await this.categorized({ ...email, category: categorization.category, classification });
+    return true;
+  }
+
+  /**
+   * Sets a category chosen by a human, locks it and keeps the email as a
+   * labelled example for future categorizations.
+   */
+  async overrideCategory(email: Email, category: string, note?: string): Promise<Email> {
+    await this.feedbackService.recordLabel(email, category, note);
+
+    const classification: ClassificationInfo = {
+      source: 'human',
+      reasoning: note || 'Set manually',
+      classifiedAt: new Date().toISOString()
+    };
+    await this.elasticsearchService.updateEmailCategory(email.id, category, classification);
+
+    console.log(` Email ${email.id} category set to ${category} by a human`);
+    const updated = { ...email, category, classification };
+    await this.emitCategorized(updated);
+    return updated;
+  }
+
+  async sendReply(original: Email, request: ReplyRequest): Promise<Email> {
+    const smtpService = this.smtpServices.get(original.accountId);
+    if (!smtpService) {
+      throw new Error(`SMTP is not configured for account ${original.accountId}`);
+    }
+
+    const message = await smtpService.sendReply(original, request);
+
+    let folder = 'Sent';
+    let uid = 0;
+    let uidValidity: string | undefined;
+    const imapService = this.imapServices.get(original.accountId);
+    if (smtpService.saveToSent && imapService) {
+      try {
+        ({ folder, uid, uidValidity } = await imapService.appendToSent(message.raw));
+      } catch (error) {
+        console.error(' Error appending reply to Sent folder:', error);
+      }
+    }
+
+    // Same identity the Sent folder sync will derive, so the copy is upserted rather than duplicated
+    const sent: Email = {
+      id: createEmailId({ accountId: original.accountId, folder, uidValidity, uid, messageId: message.messageId }),
+      accountId: original.accountId,
+      messageId: message.messageId,
+      from: message.from,
+      to: message.to,
+      cc: message.cc,
+      subject: message.subject,
+      body: message.text,
+      html: message.html,
+      date: message.date,
+      folder,
+      uid,
+      uidValidity,
+      inReplyTo: message.inReplyTo,
+      references: message.references,
+      threadId: original.threadId,
+      isRead: true,
+      attachments: [],
+      timestamp: new Date()
+    };
+
+    await this.threadService.assignThreads([sent]);
+    await this.elasticsearchService.indexEmail(sent);
+
+    await this.webhookService.emit('thread.replied', {
+      ...emailEventData(sent),
+      inReplyToEmailId: original.id
+    });
+    return sent;
   }
 
   getImapService(accountId: string): ImapService | undefined {
     return this.imapServices.get(accountId);
   }
 
+  getSmtpService(accountId: string): SmtpService | undefined {
+    return this.smtpServices.get(accountId);
+  }
+
+  getAccount(accountId: string): EmailAccount | undefined {
+    return this.accounts.get(accountId);
+  }
+
   async shutdown(): Promise<void> {
     console.log(' Shutting down email sync services...');
     
@@ -140,7 +840,12 @@ export class EmailSyncService {
       console.log(` Disconnected account: ${accountId}`);
     }
 
+    for (const smtpService of this.smtpServices.values()) {
+      smtpService.close();
+    }
+
     this.imapServices.clear();
+    this.smtpServices.clear();
     console.log(' Email sync services shut down');
   }
 }
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { JsonStore } from '../utils/jsonStore';
+import { cosineSimilarity } from '../utils/vector';
+import {
+  AccuracyReport,
+  CategoryAccuracy,
+  ClassificationSource,
+  Email,
+  LabeledExample,
+  SimilarExample
+} from '../types';
+import { LLMProvider } from './llm.service';
+
+interface ExampleStore {
+  examples: LabeledExample[];
+}
+
+const EXAMPLE_BODY_LENGTH = 1000;
+
+function exampleText(email: Pick<Email, 'from' | 'subject' | 'body'>): string {
+  return `From: ${email.from}\nSubject: ${email.subject}\n\n${(email.body || '').substring(0, EXAMPLE_BODY_LENGTH)}`;
+}
+
+function withoutEmbedding({ embedding, ...example }: LabeledExample): Omit<LabeledExample, 'embedding'> {
+  return example;
+}
+
+/**
+ * Human category corrections. Each overridden email becomes a labelled
+ * example (one per email) that is fed back to the model as few-shot context
+ * and compared against what was predicted before the override.
+ */
+export class FeedbackService {
+  private store = new JsonStore<ExampleStore>('examples.json', { examples: [] });
+  private llm: LLMProvider;
+
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
+  }
+
+  async listExamples(accountId?: string): Promise<Array<Omit<LabeledExample, 'embedding'>>> {
+    const { examples } = await this.store.get();
+    return examples
+      .filter(example => !accountId || example.accountId === accountId)
+      .map(withoutEmbedding);
+  }
+
+  /**
+   * Records the human-chosen label for an email. The prediction is taken
+   * from the email's current category unless an earlier override already
+   * captured it.
+   */
+  async recordLabel(email: Email, label: string, note?: string): Promise<Omit<LabeledExample, 'embedding'>> {
+    const { examples } = await this.store.get();
+    const existing = examples.find(example => example.emailId === email.id);
+    const now = new Date().toISOString();
+
+    let embedding: number[] | undefined;
+    try {
+      embedding = await this.llm.embed(exampleText(email));
+    } catch (error: any) {
+      // Still useful for accuracy reports; it just won't be retrieved as a few-shot example
+      console.error(` Error embedding example ${email.id}:`, error.message);
+    }
+
+    const source = email.classification?.source;
+    const example: LabeledExample = {
+      emailId: email.id,
+      accountId: email.accountId,
+      from: email.from,
+      subject: email.subject,
+      body: (email.body || '').substring(0, EXAMPLE_BODY_LENGTH),
+      label,
+      predicted: existing ? existing.predicted : (source && source !== 'human' ? email.category : undefined),
+      predictedBy: existing ? existing.predictedBy : (source && source !== 'human' ? source : undefined),
+      note,
+      embedding: embedding || existing?.embedding,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    await this.store.update(data => {
+      data.examples = data.examples.filter(entry => entry.emailId !== email.id);
+      data.examples.push(example);
+    });
+
+    console.log(` Recorded label ${label} for email ${email.id}`);
+    return withoutEmbedding(example);
+  }
+
+  async deleteExample(emailId: string): Promise<boolean> {
+    const { examples } = await this.store.get();
+    if (!examples.some(example => example.emailId === emailId)) return false;
+
+    await this.store.update(data => {
+      data.examples = data.examples.filter(example => example.emailId !== emailId);
+    });
+    return true;
+  }
+
+  /**
+   * Labelled examples most similar to the email, best first. Examples of
+   * the email itself and with labels outside `labels` are skipped.
+   */
+  async findSimilar(email: Email, limit: number, minScore: number, labels?: string[]): Promise<SimilarExample[]> {
+    const { examples } = await this.store.get();
+    const candidates = examples.filter(example =>
+      example.embedding
+      && example.emailId !== email.id
+      && (!labels || labels.includes(example.label))
+    );
+    if (limit <= 0 || candidates.length === 0) return [];
+
+    const embedding = await this.llm.embed(exampleText(email));
+
+    return candidates
+      .map(example => ({ example: withoutEmbedding(example), score: cosineSimilarity(embedding, example.embedding!) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Keeps example labels pointing at a category after it's renamed
+  async renameCategory(from: string, to: string): Promise<void> {
+    const { examples } = await this.store.get();
+    if (!examples.some(example => example.label === from || example.predicted === from)) return;
+
+    await this.store.update(data => {
+      for (const example of data.examples) {
+        if (example.label === from) example.label = to;
+        if (example.predicted === from) example.predicted = to;
+      }
+    });
+  }
+
+  /**
+   * Compares predictions from one source (the model by default) with the
+   * human labels that replaced them.
+   */
+  async accuracyReport(source: Exclude<ClassificationSource, 'human'> = 'ai', accountId?: string): Promise<AccuracyReport> {
+    const { examples } = await this.store.get();
+    const scored = examples.filter(example =>
+      example.predictedBy === source
+      && example.predicted
+      && (!accountId || example.accountId === accountId)
+    );
+
+    const labels = [...new Set(scored.flatMap(example => [example.label, example.predicted!]))].sort();
+    const confusionMatrix: Record<string, Record<string, number>> = {};
+    for (const actual of labels) {
+      confusionMatrix[actual] = Object.fromEntries(labels.map(predicted => [predicted, 0]));
+    }
+    for (const example of scored) {
+      confusionMatrix[example.label][example.predicted!]++;
+    }
+
+    const categories: Record<string, CategoryAccuracy> = {};
+    for (const label of labels) {
+      const truePositives = confusionMatrix[label][label];
+      const support = labels.reduce((sum, predicted) => sum + confusionMatrix[label][predicted], 0);
+      const predicted = labels.reduce((sum, actual) => sum + confusionMatrix[actual][label], 0);
+      categories[label] = {
+        support,
+        predicted,
+        truePositives,
+        precision: predicted ? truePositives / predicted : null,
+        recall: support ? truePositives / support : null
+      };
+    }
+
+    const correct = scored.filter(example => example.label === example.predicted).length;
+    return {
+      source,
+      total: scored.length,
+      correct,
+      accuracy: scored.length ? correct / scored.length : null,
+      labels,
+      confusionMatrix,
+      categories
+    };
+  }
+}
@@ -0,0 +1,406 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config';
+import { EmailAccount } from '../types';
+import { AttachmentService } from './attachment.service';
+import { ImapService } from './imap.services';
+import { OAuthService } from './oauth.service';
+import { SyncStateService } from './syncState.service';
+
+interface FakeMessage {
+  uid: number;
+  messageId: string;
+  source: Buffer;
+  flags: Set<string>;
+}
+
+interface FakeMailbox {
+  path: string;
+  specialUse?: string;
+  uidValidity: bigint;
+  uidNext: number;
+  messages: FakeMessage[];
+}
+
+interface FakeClient extends EventEmitter {
+  selected?: string;
+  readOnly: boolean;
+  close(): void;
+}
+
+// The mailboxes behind every fake ImapFlow client, and the clients in the order they were created
+const server = vi.hoisted(() => ({
+  capabilities: new Set<string>(),
+  mailboxes: new Map<string, FakeMailbox>(),
+  clients: [] as FakeClient[]
+}));
+
+vi.mock('imapflow', async () => {
+  const { EventEmitter } = await import('events');
+
+  const box = (boxPath: string): FakeMailbox => {
+    const mailbox = server.mailboxes.get(boxPath);
+    if (!mailbox) throw new Error(`Mailbox ${boxPath} doesn't exist`);
+    return mailbox;
+  };
+
+  const inRange = (range: number[] | string, uid: number): boolean => {
+    if (Array.isArray(range)) return range.includes(uid);
+    const [from, to] = range.split(':');
+    return uid >= Number(from) && (to === '*' || uid <= Number(to));
+  };
+
+  class ImapFlow extends EventEmitter {
+    capabilities = server.capabilities;
+    enabled = new Set<string>();
+    selected?: string;
+    readOnly = false;
+
+    constructor() {
+      super();
+      server.clients.push(this);
+    }
+
+    get mailbox() {
+      if (!this.selected) return false;
+      const { path: boxPath, uidValidity, uidNext } = box(this.selected);
+      return { path: boxPath, uidValidity, uidNext };
+    }
+
+    async connect(): Promise<void> {}
+
+    async logout(): Promise<void> {
+      this.close();
+    }
+
+    close(): void {
+      this.emit('close');
+    }
+
+    async list() {
+      return [...server.mailboxes.values()].map(({ path: boxPath, specialUse }) => ({
+        path: boxPath, name: boxPath, specialUse, flags: new Set<string>()
+      }));
+    }
+
+    async mailboxOpen(boxPath: string, options: { readOnly?: boolean } = {}): Promise<void> {
+      this.selected = box(boxPath).path;
+      this.readOnly = options.readOnly || false;
+    }
+
+    async getMailboxLock(boxPath: string) {
+      this.selected = box(boxPath).path;
+      return { release: () => undefined };
+    }
+
+    async status(boxPath: string) {
+      const { uidNext, uidValidity } = box(boxPath);
+      return { path: boxPath, uidNext, uidValidity };
+    }
+
+    async search(query: { since?: Date; uid?: string; header?: Record<string, string> }): Promise<number[]> {
+      const messages = box(this.selected!).messages;
+      if (query.header) {
+        return messages.filter(message => message.messageId === query.header!['message-id']).map(message => message.uid);
+      }
+      const uids = messages.map(message => message.uid);
+      if (!query.uid) return uids;
+      // Like a real server, "n:*" matches the last message even below n
+      const matched = uids.filter(uid => inRange(query.uid!, uid));
+      return matched.length > 0 || uids.length === 0 ? matched : [uids[uids.length - 1]];
+    }
+
+    async *fetch(range: number[] | string) {
+      for (const { uid, source, flags } of box(this.selected!).messages) {
+        if (inRange(range, uid)) yield { uid, source, flags: new Set(flags) };
+      }
+    }
+
+    async messageFlagsAdd(uids: number[], flags: string[]): Promise<boolean> {
+      for (const message of box(this.selected!).messages.filter(message => uids.includes(message.uid))) {
+        flags.forEach(flag => message.flags.add(flag));
+      }
+      return true;
+    }
+
+    async messageFlagsRemove(uids: number[], flags: string[]): Promise<boolean> {
+      for (const message of box(this.selected!).messages.filter(message => uids.includes(message.uid))) {
+        flags.forEach(flag => message.flags.delete(flag));
+      }
+      return true;
+    }
+
+    async messageMove(uids: number[], destination: string) {
+      const source = box(this.selected!);
+      const target = box(destination);
+      const uidMap = new Map<number, number>();
+
+      for (const message of source.messages.filter(message => uids.includes(message.uid))) {
+        uidMap.set(message.uid, target.uidNext);
+        target.messages.push({ ...message, uid: target.uidNext++ });
+      }
+      source.messages = source.messages.filter(message => !uids.includes(message.uid));
+
+      // Only servers with UIDPLUS report where the messages ended up
+      return server.capabilities.has('UIDPLUS')
+        ? { path: source.path, destination: target.path, uidValidity: target.uidValidity, uidMap }
+        : { path: source.path, destination: target.path };
+    }
+
+    async messageDelete(uids: number[]): Promise<boolean> {
+      const mailbox = box(this.selected!);
+      mailbox.messages = mailbox.messages.filter(message => !uids.includes(message.uid));
+      return true;
+    }
+  }
+
+  return { ImapFlow };
+});
+
+function addMailbox(boxPath: string, uidValidity: bigint, specialUse?: string): FakeMailbox {
+  const mailbox: FakeMailbox = { path: boxPath, specialUse, uidValidity, uidNext: 1, messages: [] };
+  server.mailboxes.set(boxPath, mailbox);
+  return mailbox;
+}
+
+function deliver(mailbox: FakeMailbox, subject: string, messageId = `<${subject}@example.com>`): FakeMessage {
+  const source = Buffer.from([
+    'From: Jane Doe <jane@example.com>',
+    'To: alice@example.com',
+    `Subject: ${subject}`,
+    `Message-ID: ${messageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    '',
+    `About ${subject}`
+  ].join('\r\n'));
+  const message = { uid: mailbox.uidNext++, messageId, source, flags: new Set<string>() };
+  mailbox.messages.push(message);
+  return message;
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the IMAP service');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+const ACCOUNT: EmailAccount = {
+  id: 'a1',
+  user: 'alice@example.com',
+  password: 'secret',
+  host: '127.0.0.1',
+  port: 993,
+  name: 'Alice',
+  folders: ['INBOX', '\\Archive']
+};
+
+describe('ImapService', () => {
+  const originalDataDir = config.storage.dataDir;
+  const originalImap = { ...config.imap };
+  let dataDir: string;
+  let syncState: SyncStateService;
+  let service: ImapService;
+  let inbox: FakeMailbox;
+  let archive: FakeMailbox;
+  let batches: Array<{ subjects: string[]; backfill: boolean }>;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'imap-'));
+    config.storage.dataDir = dataDir;
+    server.capabilities.clear();
+    server.mailboxes.clear();
+    server.clients = [];
+    inbox = addMailbox('INBOX', 7n);
+    archive = addMailbox('Archive', 3n, '\\Archive');
+
+    batches = [];
+    syncState = new SyncStateService();
+    const attachments = { storeAttachments: async () => ({ attachments: [], text: '' }) };
+    service = new ImapService(ACCOUNT, syncState, {} as OAuthService, attachments as unknown as AttachmentService);
+    service.onNewEmails(async (emails, backfill) => {
+      batches.push({ subjects: emails.map(email => email.subject), backfill });
+    });
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    config.storage.dataDir = originalDataDir;
+    Object.assign(config.imap, originalImap);
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('sync', () => {
+    it('backfills a new folder, then fetches only messages above the saved UID', async () => {
+      deliver(inbox, 'one');
+      deliver(inbox, 'two');
+      await service.connect();
+
+      await service.fetchNewEmails();
+      expect(batches).toEqual([{ subjects: ['one', 'two'], backfill: true }]);
+      expect(await syncState.get('a1', 'INBOX')).toMatchObject({ uidValidity: '7', highestUid: 2 });
+
+      deliver(inbox, 'three');
+      await service.fetchNewEmails();
+      await service.fetchNewEmails();
+
+      expect(batches.slice(1)).toEqual([{ subjects: ['three'], backfill: false }]);
+      expect(await syncState.get('a1', 'INBOX')).toMatchObject({ highestUid: 3 });
+    });
+
+    it('keeps the cursor when the handler fails, so the emails are fetched again', async () => {
+      deliver(inbox, 'one');
+      await service.connect();
+      await service.fetchNewEmails();
+
+      deliver(inbox, 'two');
+      service.onNewEmails(async () => {
+        throw new Error('index unavailable');
+      });
+      await service.fetchNewEmails();
+      expect(await syncState.get('a1', 'INBOX')).toMatchObject({ highestUid: 1 });
+
+      service.onNewEmails(async (emails, backfill) => {
+        batches.push({ subjects: emails.map(email => email.subject), backfill });
+      });
+      await service.fetchNewEmails();
+
+      expect(batches).toEqual([{ subjects: ['one'], backfill: true }, { subjects: ['two'], backfill: false }]);
+      expect(await syncState.get('a1', 'INBOX')).toMatchObject({ highestUid: 2 });
+    });
+
+    it('reports the old UIDVALIDITY before backfilling a folder whose UIDVALIDITY changed', async () => {
+      const events: string[] = [];
+      deliver(inbox, 'one');
+      await service.connect();
+      await service.fetchNewEmails();
+
+      inbox.uidValidity = 8n;
+      service.onUidValidityChange(async (folder, staleUidValidity) => {
+        events.push(`stale ${folder} ${staleUidValidity}`);
+      });
+      service.onNewEmails(async (emails, backfill) => {
+        events.push(`${emails.length} emails, backfill ${backfill}`);
+      });
+      await service.fetchNewEmails();
+
+      expect(events).toEqual(['stale INBOX 7', '1 emails, backfill true']);
+      expect(await syncState.get('a1', 'INBOX')).toMatchObject({ uidValidity: '8', highestUid: 1 });
+    });
+  });
+
+  describe('realtime updates', () => {
+    // The first client is the account's main connection
+    const watchers = () => server.clients.slice(1);
+
+    it('watches every synced folder on its own IDLE connection and syncs when mail arrives', async () => {
+      server.capabilities.add('IDLE');
+      const saves = vi.spyOn(syncState, 'save');
+      await service.connect();
+      await service.fetchNewEmails();
+
+      service.startRealtimeUpdates();
+      // Each watcher catches up once its folder is open
+      await waitFor(() => saves.mock.calls.length === 4);
+      expect(watchers().map(watcher => [watcher.selected, watcher.readOnly]).sort()).toEqual([['Archive', true], ['INBOX', true]]);
+
+      deliver(archive, 'filed');
+      watchers().find(watcher => watcher.selected === 'Archive')!.emit('exists', { path: 'Archive', count: 1, prevCount: 0 });
+      await waitFor(() => batches.length > 0);
+
+      expect(batches).toEqual([{ subjects: ['filed'], backfill: false }]);
+    });
+
+    it('reopens a watcher whose connection dropped', async () => {
+      server.capabilities.add('IDLE');
+      config.imap.reconnectBaseMs = 10;
+      await service.connect();
+      await service.fetchNewEmails();
+
+      service.startRealtimeUpdates();
+      await waitFor(() => watchers().filter(watcher => watcher.selected).length === 2);
+      const [dropped] = watchers();
+      dropped.close();
+
+      await waitFor(() => watchers().length === 3 && watchers()[2].selected === dropped.selected);
+    });
+
+    it('polls servers without IDLE', async () => {
+      config.imap.pollIntervalMs = 10;
+      await service.connect();
+      await service.fetchNewEmails();
+
+      service.startRealtimeUpdates();
+      deliver(inbox, 'one');
+      await waitFor(() => batches.length > 0);
+
+      expect(batches).toEqual([{ subjects: ['one'], backfill: false }]);
+      expect(server.clients).toHaveLength(1);
+    });
+  });
+
+  describe('write-back', () => {
+    it('adds and removes flags on the server', async () => {
+      const message = deliver(inbox, 'one');
+      message.flags.add('\\Flagged');
+      await service.connect();
+
+      await service.updateFlags('INBOX', '7', [message.uid], ['\\Seen'], ['\\Flagged']);
+
+      expect([...message.flags]).toEqual(['\\Seen']);
+    });
+
+    it('refuses to write before connecting or to UIDs from an older UIDVALIDITY', async () => {
+      const message = deliver(inbox, 'one');
+
+      await expect(service.updateFlags('INBOX', '7', [1], ['\\Seen'], [])).rejects.toThrow('is not connected');
+      await service.connect();
+      await expect(service.updateFlags('INBOX', '6', [1], ['\\Seen'], [])).rejects.toThrow('UIDVALIDITY of INBOX changed');
+      expect(message.flags.size).toBe(0);
+    });
+
+    it('moves messages and maps their new UIDs with UIDPLUS', async () => {
+      server.capabilities.add('UIDPLUS');
+      archive.uidNext = 10;
+      deliver(inbox, 'one');
+      deliver(inbox, 'two');
+      await service.connect();
+
+      const moved = await service.moveMessages('INBOX', '7', [1, 2], 'Archive');
+
+      expect(moved).toEqual({ folder: 'Archive', uidValidity: '3', uidMap: new Map([[1, 10], [2, 11]]) });
+      expect(inbox.messages).toEqual([]);
+    });
+
+    it('finds moved messages by Message-ID without UIDPLUS, taking the newest match', async () => {
+      deliver(archive, 'older copy', '<one@example.com>');
+      deliver(inbox, 'one');
+      await service.connect();
+
+      const moved = await service.moveMessages('INBOX', '7', [1], 'Archive');
+      const found = await service.findUidsByMessageId('Archive', ['<one@example.com>', '<missing@example.com>']);
+
+      expect(moved.uidMap.size).toBe(0);
+      expect(found).toEqual({ uidValidity: '3', uids: new Map([['<one@example.com>', 2]]) });
+    });
+
+    it('moves deleted messages to Trash and expunges them when permanent or already there', async () => {
+      const trash = addMailbox('Trash', 5n, '\\Trash');
+      deliver(inbox, 'one');
+      deliver(inbox, 'two');
+      await service.connect();
+
+      await service.deleteMessages('INBOX', '7', [1], false);
+      expect(trash.messages.map(message => message.messageId)).toEqual(['<one@example.com>']);
+
+      await service.deleteMessages('INBOX', '7', [2], true);
+      await service.deleteMessages('Trash', '5', [1], false);
+      expect(inbox.messages).toEqual([]);
+      expect(trash.messages).toEqual([]);
+    });
+  });
+});
@@ -1,207 +1,710 @@
-import { ImapFlow } from 'imapflow';
+import { ImapFlow, MailboxObject, ListResponse, FlagsEvent } from 'imapflow';
 import { simpleParser, ParsedMail } from 'mailparser';
 import { EventEmitter } from 'events';
-import { v4 as uuidv4 } from 'uuid';
-import { EmailAccount, Email } from '../types';
+import { config } from '../config';
+import { EmailAccount, Email, FolderInfo, FolderSyncState, FlagUpdate } from '../types';
+import { SyncStateService } from './syncState.service';
+import { OAuthService } from './oauth.service';
+import { AttachmentService } from './attachment.service';
+import { createEmailId } from '../utils/emailId';
+import { buildTlsOptions } from '../utils/tls';
+import { parseMessageIds } from '../utils/threading';
+
+const SKIPPED_HEADERS = /^(received|dkim-signature|arc-.*|x-received|authentication-results|received-spf|x-google-smtp-source|x-gm-message-state)$/;
+const MAX_HEADER_LENGTH = 2000;
+
+/**
+ * Receives the new emails of a folder sync. The folder's sync state is only
+ * saved once the returned promise resolves, so a failure (e.g. indexing)
+ * means the same emails are fetched again on the next sync. `backfill` is
+ * set for the 30-day catch-up of a folder without (valid) sync state.
+ */
+export type NewEmailsHandler = (emails: Email[], backfill: boolean) => Promise<void>;
+
+/**
+ * Called when a folder's UIDVALIDITY changed, before its backfill is
+ * handed over: the emails indexed under the old UIDVALIDITY are stale.
+ * Like NewEmailsHandler, the sync state isn't saved until it resolves.
+ */
+export type UidValidityChangeHandler = (folder: string, staleUidValidity: string) => Promise<void>;
+
+// Emails fetched from a folder and the sync state to save once they're handled
+export interface FolderSyncResult {
+  emails: Email[];
+  cursor: FolderSyncState;
+  backfill: boolean;
+  // The folder's previous UIDVALIDITY when it changed
+  staleUidValidity?: string;
+}
 
 export class ImapService extends EventEmitter {
-  private imap: ImapFlow;
+  private imap!: ImapFlow;
   private account: EmailAccount;
   private isConnected: boolean = false;
+  private isClosing: boolean = false;
   private pollIntervalId?: NodeJS.Timeout;
-  private lastExists: number = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts: number = 0;
+  private watchers: Map<string, ImapFlow> = new Map();
+  private pendingSyncs: Set<string> = new Set();
+  private lastFlagRescans: Map<string, number> = new Map();
+  // Syncs of the same folder run one after another so they never fetch from the same cursor
+  private folderSyncs: Map<string, Promise<number>> = new Map();
+  private newEmailsHandler?: NewEmailsHandler;
+  private uidValidityChangeHandler?: UidValidityChangeHandler;
+  private syncStateService: SyncStateService;
+  private oauthService: OAuthService;
+  private attachmentService: AttachmentService;
+  private syncFolders: string[] = ['INBOX'];
 
-  constructor(account: EmailAccount) {
+  constructor(
+    account: EmailAccount,
+    syncStateService: SyncStateService,
+    oauthService: OAuthService,
+    attachmentService: AttachmentService
+  ) {
     super();
     this.account = account;
+    this.syncStateService = syncStateService;
+    this.oauthService = oauthService;
+    this.attachmentService = attachmentService;
+  }
+
+  /**
+   * Builds a fresh ImapFlow client. OAuth2 accounts get a current access
+   * token (refreshed if needed) for every new connection.
+   */
+  private async createClient(): Promise<ImapFlow> {
+    const auth = this.account.authType === 'oauth2'
+      ? { user: this.account.user, accessToken: await this.oauthService.getAccessToken(this.account) }
+      : { user: this.account.user, pass: this.account.password };
 
-    this.imap = new ImapFlow({
-      host: account.host,
-      port: account.port,
-      secure: true,
-      auth: {
-        user: account.user,
-        pass: account.password
-      },
-      tls: { rejectUnauthorized: false }
+    const connection = this.account.connection || {};
+    const security = connection.security || 'tls';
+
+    return new ImapFlow({
+      host: this.account.host,
+      port: this.account.port,
+      secure: security === 'tls',
+      doSTARTTLS: security === 'starttls' ? true : security === 'none' ? false : undefined,
+      auth,
+      tls: buildTlsOptions(connection),
+      proxy: connection.proxy,
+      connectionTimeout: connection.connectionTimeoutMs,
+      greetingTimeout: connection.greetingTimeoutMs,
+      socketTimeout: connection.socketTimeoutMs,
+      maxIdleTime: config.imap.maxIdleTimeMs
     });
+  }
 
-    this.imap.on('error', (err) => {
+  private attachClientHandlers(client: ImapFlow): void {
+    client.on('error', (err) => {
       console.error(` IMAP error for ${this.account.user}:`, err);
       this.emit('error', err);
     });
 
-    this.imap.on('close', () => {
+    client.on('exists', (data) => this.scheduleSync(data.path));
+    client.on('flags', (data) => this.handleFlagsEvent(client, data));
+
+    client.on('close', () => {
+      // A replaced client closing late must not tear down its successor
+      if (client !== this.imap) return;
+
       console.log(` IMAP connection closed: ${this.account.user}`);
       this.isConnected = false;
+      this.stopRealtimeUpdates();
       this.emit('end');
-      // Attempt to reconnect after 5 seconds
-      setTimeout(() => this.reconnect(), 5000);
+      this.scheduleReconnect();
     });
   }
 
   async connect(): Promise<void> {
+    this.isClosing = false;
+    // ImapFlow instances can't be reused once closed
+    this.imap = await this.createClient();
+    this.attachClientHandlers(this.imap);
+
     await this.imap.connect();
+    if (this.isClosing) {
+      // disconnect() was called while connecting
+      await this.imap.logout().catch(() => undefined);
+      throw new Error(`Connection to ${this.account.user} closed while connecting`);
+    }
     this.isConnected = true;
+    this.reconnectAttempts = 0;
     console.log(` IMAP connected: ${this.account.user}`);
     this.emit('ready');
-    
-    // Initialize lastExists
-    const mailbox = await this.imap.mailboxOpen('INBOX');
-    this.lastExists = mailbox.exists || 0;
-    
-    // Start polling for new mail
-    this.startPollingForNewMail();
+
+    // Resolve configured folders; per-folder progress lives in the sync state
+    this.syncFolders = await this.resolveSyncFolders();
+    console.log(` Syncing folders for ${this.account.user}: ${this.syncFolders.join(', ')}`);
+  }
+
+  /**
+   * Logs in on a throwaway connection to check credentials and reachability.
+   */
+  async verify(): Promise<void> {
+    const client = await this.createClient();
+    client.on('error', () => undefined);
+
+    await client.connect();
+    await client.logout();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.isClosing) return;
+
+    const delay = this.backoffDelay(this.reconnectAttempts++);
+    console.log(` Reconnecting ${this.account.user} in ${Math.round(delay / 1000)}s`);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
   }
 
   private async reconnect(): Promise<void> {
-    if (this.isConnected) return;
-    
+    this.reconnectTimer = undefined;
+    if (this.isConnected || this.isClosing) return;
+
     try {
       console.log(` Attempting to reconnect: ${this.account.user}`);
       await this.connect();
+
+      // Catch up on anything that arrived while disconnected
+      await this.fetchNewEmails();
+      this.startRealtimeUpdates();
     } catch (error) {
       console.error(` Reconnection failed for ${this.account.user}:`, error);
-      setTimeout(() => this.reconnect(), 5000);
+      this.scheduleReconnect();
     }
   }
 
+  /**
+   * Exponential backoff with jitter so accounts on the same server don't
+   * reconnect in lockstep.
+   */
+  private backoffDelay(attempt: number): number {
+    const { reconnectBaseMs, reconnectMaxMs } = config.imap;
+    const delay = Math.min(reconnectBaseMs * 2 ** attempt, reconnectMaxMs);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
   async openInbox(): Promise<void> {
     // Open INBOX - already done in connect(), but keep for compatibility
     await this.imap.mailboxOpen('INBOX');
     console.log(` Opened INBOX for ${this.account.user}`);
   }
 
-  private async getMailboxLock(): Promise<any> {
+  async listFolders(): Promise<FolderInfo[]> {
+    const mailboxes = await this.imap.list({ statusQuery: { messages: true, unseen: true } });
+
+    return mailboxes
+      .filter(box => !box.flags.has('\\Noselect'))
+      .map(box => ({
+        path: box.path,
+        name: box.name,
+        specialUse: box.specialUse,
+        messages: box.status?.messages || 0,
+        unseen: box.status?.unseen || 0,
+        syncing: this.syncFolders.includes(box.path)
+      }));
+  }
+
+  getSyncFolders(): string[] {
+    return [...this.syncFolders];
+  }
+
+  /**
+   * Maps the account's folder list onto real mailbox paths. Entries starting
+   * with a backslash ("\\Sent", "\\Archive") match special-use flags so the
+   * same configuration works across providers with localized folder names.
+   */
+  private async resolveSyncFolders(): Promise<string[]> {
+    const wanted = this.account.folders && this.account.folders.length > 0
+      ? this.account.folders
+      : ['INBOX'];
+    const mailboxes = await this.imap.list();
+    const resolved: string[] = [];
+
+    for (const entry of wanted) {
+      const match = this.findMailbox(mailboxes, entry);
+
+      if (!match) {
+        console.warn(` Folder ${entry} not found for ${this.account.user}, skipping`);
+        continue;
+      }
+      if (!resolved.includes(match.path)) {
+        resolved.push(match.path);
+      }
+    }
+
+    return resolved;
+  }
+
+  private findMailbox(mailboxes: ListResponse[], entry: string): ListResponse | undefined {
+    return entry.startsWith('\\')
+      ? mailboxes.find(box => box.specialUse?.toLowerCase() === entry.toLowerCase())
+      : mailboxes.find(box => box.path.toLowerCase() === entry.toLowerCase());
+  }
+
+  /**
+   * Resolves a mailbox path or special-use flag to an existing path.
+   */
+  async resolveFolder(entry: string): Promise<string | undefined> {
+    return this.findMailbox(await this.imap.list(), entry)?.path;
+  }
+
+  private async getMailboxLock(folder: string): Promise<any> {
     // Use imapflow's getMailboxLock to safely read messages
-    return await this.imap.getMailboxLock('INBOX');
+    return await this.imap.getMailboxLock(folder);
   }
 
-  async fetchLast30Days(): Promise<Email[]> {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  onNewEmails(handler: NewEmailsHandler): void {
+    this.newEmailsHandler = handler;
+  }
 
+  onUidValidityChange(handler: UidValidityChangeHandler): void {
+    this.uidValidityChangeHandler = handler;
+  }
+
+  /**
+   * Fetches every message in the folder that hasn't been seen yet according
+   * to the persisted sync state. Without state, or after a UIDVALIDITY change,
+   * falls back to the last 30 days. The returned cursor is not saved here;
+   * see syncAndDeliver.
+   */
+  async syncFolder(folder: string): Promise<FolderSyncResult> {
     const emails: Email[] = [];
-    const lock = await this.getMailboxLock();
-    
+    const lock = await this.getMailboxLock(folder);
+
     try {
-      // Search by SINCE date
-      const uids = await this.imap.search({ since: thirtyDaysAgo });
-      
-      if (!uids || uids.length === 0) {
-        console.log(` No emails found in last 30 days for ${this.account.user}`);
-        return [];
+      const mailbox = this.imap.mailbox as MailboxObject;
+      const uidValidity = mailbox.uidValidity.toString();
+      const state = await this.syncStateService.get(this.account.id, folder);
+      let uids: number[];
+
+      const backfill = !state || state.uidValidity !== uidValidity;
+
+      if (backfill) {
+        if (state) {
+          console.log(` UIDVALIDITY changed for ${folder} (${this.account.user}), resyncing`);
+        }
+
+        const thirtyDaysAgo = new Date();
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+        uids = (await this.imap.search({ since: thirtyDaysAgo }, { uid: true })) || [];
+        console.log(` Found ${uids.length} emails in ${folder} in last 30 days for ${this.account.user}`);
+      } else if (mailbox.uidNext > state.highestUid + 1) {
+        // "n:*" always matches the last message, so drop anything already seen
+        const found = await this.imap.search({ uid: `${state.highestUid + 1}:*` }, { uid: true });
+        uids = (found || []).filter(uid => uid > state.highestUid);
+      } else {
+        uids = [];
       }
 
-      console.log(` Found ${uids.length} emails in last 30 days for ${this.account.user}`);
+      let highestUid = backfill ? Math.max(mailbox.uidNext - 1, 0) : state.highestUid;
 
-      // Fetch messages
-      for await (const message of this.imap.fetch(uids, { envelope: true, source: true })) {
-        try {
-          // message.source is a Buffer with full RFC822 message
-          if (!message.source) {
-            console.warn(' Message source is undefined, skipping');
-            continue;
+      if (uids.length > 0) {
+        for await (const message of this.imap.fetch(uids, { envelope: true, source: true, flags: true }, { uid: true })) {
+          highestUid = Math.max(highestUid, message.uid);
+          try {
+            // message.source is a Buffer with full RFC822 message
+            if (!message.source) {
+              console.warn(' Message source is undefined, skipping');
+              continue;
+            }
+            const parsed = await simpleParser(message.source);
+            emails.push(await this.convertToEmail(parsed, message.uid, folder, uidValidity, message.flags));
+          } catch (parseError) {
+            console.error(' Error parsing email:', parseError);
           }
-          const parsed = simpleParser(message.source);
-          const uid = message.uid || 0;
-          emails.push(this.convertToEmail(await parsed, uid));
-        } catch (parseError) {
-          console.error(' Error parsing email:', parseError);
+        }
+
+        console.log(` Fetched ${emails.length} emails from ${folder} for ${this.account.user}`);
+      }
+
+      if (!backfill) {
+        const updates = await this.fetchFlagChanges(folder, mailbox, state);
+        if (updates.length > 0) {
+          this.emit('flagsChanged', updates);
         }
       }
 
-      console.log(` Fetched ${emails.length} emails for ${this.account.user}`);
-      return emails;
+      return {
+        emails,
+        backfill,
+        staleUidValidity: state && backfill ? state.uidValidity : undefined,
+        cursor: {
+          accountId: this.account.id,
+          folder,
+          uidValidity,
+          highestUid,
+          highestModseq: mailbox.highestModseq !== undefined ? mailbox.highestModseq.toString() : undefined,
+          lastSyncedAt: new Date().toISOString()
+        }
+      };
     } finally {
       lock.release();
     }
   }
 
-  async fetchRecentEmails(count: number): Promise<Email[]> {
-    const emails: Email[] = [];
-    const lock = await this.getMailboxLock();
-    
-    try {
-      // Get all UIDs
-      const uids = await this.imap.search({ all: true });
-      
-      if (!uids || uids.length === 0) {
-        return [];
-      }
+  /**
+   * Syncs a folder, hands the new emails to the handler and only then moves
+   * the folder's cursor forward. Returns the number of new emails.
+   */
+  private syncAndDeliver(folder: string): Promise<number> {
+    const previous = this.folderSyncs.get(folder) || Promise.resolve(0);
+    const run = previous.catch(() => 0).then(() => this.deliverFolder(folder));
 
-      // Get the most recent ones
-      const recentUids = uids.slice(-count);
+    this.folderSyncs.set(folder, run);
+    run.catch(() => undefined).then(() => {
+      if (this.folderSyncs.get(folder) === run) this.folderSyncs.delete(folder);
+    });
+    return run;
+  }
 
-      // Fetch messages
-      for await (const message of this.imap.fetch(recentUids, { envelope: true, source: true })) {
-        try {
-          if (!message.source) {
-            console.warn(' Message source is undefined, skipping');
-            continue;
-          }  
-          const parsed = simpleParser(message.source);
-          const uid = message.uid || 0;
-          emails.push(this.convertToEmail(await parsed, uid));
-        } catch (parseError) {
-          console.error(' Error parsing email:', parseError);
-        }
+  private async deliverFolder(folder: string): Promise<number> {
+    const { emails, cursor, backfill, staleUidValidity } = await this.syncFolder(folder);
+
+    if (staleUidValidity && this.uidValidityChangeHandler) {
+      await this.uidValidityChangeHandler(folder, staleUidValidity);
+    }
+
+    if (emails.length > 0) {
+      if (!this.newEmailsHandler) {
+        throw new Error(`No handler for new emails in ${folder}`);
       }
+      await this.newEmailsHandler(emails, backfill);
+    }
 
-      return emails;
-    } finally {
-      lock.release();
+    await this.syncStateService.save(cursor);
+    return emails.length;
+  }
+
+  /**
+   * Picks up flag changes made by other clients on already-synced messages.
+   * With CONDSTORE only messages changed since the stored MODSEQ are fetched;
+   * other servers get a periodic flags-only rescan.
+   */
+  private async fetchFlagChanges(folder: string, mailbox: MailboxObject, state: FolderSyncState): Promise<FlagUpdate[]> {
+    if (state.highestUid === 0) return [];
+
+    const condstore = this.imap.enabled.has('CONDSTORE') && mailbox.highestModseq !== undefined;
+    let changedSince: bigint | undefined;
+
+    if (condstore && state.highestModseq) {
+      changedSince = BigInt(state.highestModseq);
+      if (mailbox.highestModseq! <= changedSince) return [];
+    } else {
+      const lastRescan = this.lastFlagRescans.get(folder) || 0;
+      if (Date.now() - lastRescan < config.imap.flagRescanIntervalMs) return [];
+      this.lastFlagRescans.set(folder, Date.now());
+    }
+
+    const updates: FlagUpdate[] = [];
+    for await (const message of this.imap.fetch(`1:${state.highestUid}`, { flags: true }, { uid: true, changedSince })) {
+      if (message.uid > state.highestUid) continue;
+      updates.push(this.toFlagUpdate(folder, state.uidValidity, message.uid, message.flags));
+    }
+
+    if (updates.length > 0) {
+      console.log(` Synced flags of ${updates.length} messages in ${folder} for ${this.account.user}`);
     }
+    return updates;
   }
 
+  private toFlagUpdate(folder: string, uidValidity: string, uid: number, flags?: Set<string>): FlagUpdate {
+    return {
+      accountId: this.account.id,
+      folder,
+      uidValidity,
+      uid,
+      isRead: flags?.has('\\Seen') || false,
+      isFlagged: flags?.has('\\Flagged') || false
+    };
+  }
+
+  /**
+   * Flag changes pushed while a connection is idle. Servers don't always
+   * include the UID; those changes are picked up by a folder sync instead.
+   */
+  private handleFlagsEvent(client: ImapFlow, data: FlagsEvent): void {
+    const mailbox = client.mailbox;
+    if (!this.syncFolders.includes(data.path)) return;
+
+    if (data.uid && mailbox && mailbox.path === data.path) {
+      this.emit('flagsChanged', [this.toFlagUpdate(data.path, mailbox.uidValidity.toString(), data.uid, data.flags)]);
+    } else {
+      this.scheduleSync(data.path);
+    }
+  }
+
+  // Syncs every folder from its persisted sync state (last 30 days on first run)
   async fetchNewEmails(): Promise<void> {
-    try {
-      const emails = await this.fetchRecentEmails(10);
-      emails.forEach(email => this.emit('newEmail', email));
-    } catch (error) {
-      console.error(' Error fetching new emails:', error);
+    for (const folder of this.syncFolders) {
+      try {
+        await this.syncAndDeliver(folder);
+      } catch (error) {
+        console.error(` Error fetching new emails from ${folder} for ${this.account.user}:`, error);
+      }
     }
   }
 
-  private startPollingForNewMail(intervalMs = 15000): void {
+  private startPollingForNewMail(intervalMs: number): void {
     if (this.pollIntervalId) return;
     
     this.pollIntervalId = setInterval(async () => {
       if (!this.isConnected) return;
       
-      try {
-        const box = await this.imap.mailboxOpen('INBOX');
-        const exists = box.exists || 0;
-        
-        if (exists > this.lastExists) {
-          const newCount = exists - this.lastExists;
-          this.lastExists = exists;
-          console.log(` Detected ${newCount} new messages for ${this.account.user}`);
-          
-          // Fetch the new emails
-          const recent = await this.fetchRecentEmails(newCount);
-          recent.forEach(email => this.emit('newEmail', email));
-        } else {
-          // Update lastExists in case emails were deleted
-          this.lastExists = exists;
+      for (const folder of this.syncFolders) {
+        try {
+          const status = await this.imap.status(folder, { uidNext: true, uidValidity: true, highestModseq: true });
+          const state = await this.syncStateService.get(this.account.id, folder);
+
+          // Compare UIDs rather than message counts so a delete plus an
+          // arrival in the same interval is still detected; MODSEQ covers flag changes
+          const changed = !state
+            || status.uidValidity?.toString() !== state.uidValidity
+            || (status.uidNext || 0) > state.highestUid + 1
+            || (status.highestModseq !== undefined && status.highestModseq.toString() !== state.highestModseq)
+            || !this.imap.enabled.has('CONDSTORE');
+
+          if (changed) {
+            const count = await this.syncAndDeliver(folder);
+            if (count > 0) {
+              console.log(` Detected ${count} new messages in ${folder} for ${this.account.user}`);
+            }
+          }
+        } catch (err) {
+          console.error(` Error polling ${folder} for new mail:`, err);
         }
-      } catch (err) {
-        console.error(' Error polling for new mail:', err);
       }
     }, intervalMs);
   }
 
-  startIdleMode(): void {
-    // ImapFlow uses polling instead of IDLE mode
-    // Already started in connect(), but this method is kept for compatibility
-    console.log(`Polling mode active for ${this.account.user}`);
+  /**
+   * Runs a write against a folder, refusing if its UIDVALIDITY no longer
+   * matches the one the UIDs were indexed under.
+   */
+  private async withMailbox<T>(folder: string, uidValidity: string | undefined, action: () => Promise<T>): Promise<T> {
+    if (!this.isConnected) {
+      throw new Error(`Account ${this.account.user} is not connected`);
+    }
+
+    const lock = await this.getMailboxLock(folder);
+    try {
+      const mailbox = this.imap.mailbox as MailboxObject;
+      if (uidValidity && mailbox.uidValidity.toString() !== uidValidity) {
+        throw new Error(`UIDVALIDITY of ${folder} changed; the email must be re-synced before it can be modified`);
+      }
+      return await action();
+    } finally {
+      lock.release();
+    }
+  }
+
+  async updateFlags(folder: string, uidValidity: string | undefined, uids: number[], add: string[], remove: string[]): Promise<void> {
+    await this.withMailbox(folder, uidValidity, async () => {
+      if (add.length > 0) {
+        await this.imap.messageFlagsAdd(uids, add, { uid: true });
+      }
+      if (remove.length > 0) {
+        await this.imap.messageFlagsRemove(uids, remove, { uid: true });
+      }
+    });
+    console.log(` Updated flags on ${uids.length} messages in ${folder} for ${this.account.user}`);
   }
 
-  async disconnect(): Promise<void> {
+  /**
+   * Moves messages and returns their UIDs in the destination. The map is
+   * empty when the server doesn't support UIDPLUS.
+   */
+  async moveMessages(
+    folder: string,
+    uidValidity: string | undefined,
+    uids: number[],
+    destination: string
+  ): Promise<{ folder: string; uidValidity?: string; uidMap: Map<number, number> }> {
+    const result = await this.withMailbox(folder, uidValidity, () =>
+      this.imap.messageMove(uids, destination, { uid: true })
+    );
+
+    if (!result) {
+      throw new Error(`Failed to move messages from ${folder} to ${destination}`);
+    }
+
+    console.log(` Moved ${uids.length} messages from ${folder} to ${destination} for ${this.account.user}`);
+    return {
+      folder: result.destination,
+      uidValidity: result.uidValidity !== undefined ? result.uidValidity.toString() : undefined,
+      uidMap: result.uidMap || new Map()
+    };
+  }
+
+  /**
+   * UIDs of messages in a folder by Message-ID header, for servers without
+   * UIDPLUS, which don't report where moved messages ended up. Where a
+   * Message-ID matches several messages, the newest (highest UID) wins.
+   */
+  async findUidsByMessageId(folder: string, messageIds: string[]): Promise<{ uidValidity: string; uids: Map<string, number> }> {
+    return this.withMailbox(folder, undefined, async () => {
+      const uids = new Map<string, number>();
+      for (const messageId of messageIds) {
+        const found = await this.imap.search({ header: { 'message-id': messageId } }, { uid: true });
+        if (found && found.length > 0) {
+          uids.set(messageId, Math.max(...found));
+        }
+      }
+      return { uidValidity: (this.imap.mailbox as MailboxObject).uidValidity.toString(), uids };
+    });
+  }
+
+  /**
+   * Moves messages to Trash, or expunges them when permanent, when they are
+   * already in Trash or the account has no Trash folder.
+   */
+  async deleteMessages(folder: string, uidValidity: string | undefined, uids: number[], permanent: boolean): Promise<void> {
+    const trash = permanent ? undefined : await this.resolveFolder('\\Trash');
+
+    if (trash && trash !== folder) {
+      await this.moveMessages(folder, uidValidity, uids, trash);
+      return;
+    }
+
+    await this.withMailbox(folder, uidValidity, () => this.imap.messageDelete(uids, { uid: true }));
+    console.log(` Deleted ${uids.length} messages from ${folder} for ${this.account.user}`);
+  }
+
+  async appendToSent(raw: Buffer): Promise<{ folder: string; uid: number; uidValidity?: string }> {
+    const mailboxes = await this.imap.list();
+    const sent = mailboxes.find(box => box.specialUse === '\\Sent')
+      || mailboxes.find(box => box.name.toLowerCase() === 'sent');
+
+    if (!sent) {
+      throw new Error(`No Sent folder found for ${this.account.user}`);
+    }
+
+    const result = await this.imap.append(sent.path, raw, ['\\Seen']);
+    console.log(` Appended sent message to ${sent.path} for ${this.account.user}`);
+
+    return {
+      folder: sent.path,
+      uid: result ? result.uid || 0 : 0,
+      uidValidity: result && result.uidValidity !== undefined ? result.uidValidity.toString() : undefined
+    };
+  }
+
+  /**
+   * Starts push updates after the initial sync. Each synced folder gets its
+   * own IDLE connection since IDLE only watches the selected mailbox; servers
+   * without IDLE fall back to polling.
+   */
+  startRealtimeUpdates(): void {
+    if (!this.isConnected) return;
+
+    if (!this.imap.capabilities.has('IDLE')) {
+      console.log(` ${this.account.user} does not support IDLE, polling for new mail`);
+      this.startPollingForNewMail(config.imap.pollIntervalMs);
+      return;
+    }
+
+    for (const folder of this.syncFolders) {
+      this.startWatcher(folder);
+    }
+    console.log(` IDLE active for ${this.account.user}: ${this.syncFolders.join(', ')}`);
+  }
+
+  private async startWatcher(folder: string, attempt = 0): Promise<void> {
+    if (!this.isConnected || this.isClosing || this.watchers.has(folder)) return;
+
+    let watcher: ImapFlow;
+    try {
+      watcher = await this.createClient();
+    } catch (error) {
+      console.error(` Failed to prepare IDLE on ${folder} for ${this.account.user}:`, error);
+      setTimeout(() => this.startWatcher(folder, attempt + 1), this.backoffDelay(attempt + 1));
+      return;
+    }
+    if (!this.isConnected || this.isClosing || this.watchers.has(folder)) return;
+
+    let established = false;
+    let retried = false;
+    this.watchers.set(folder, watcher);
+
+    const retry = () => {
+      if (retried || this.watchers.get(folder) !== watcher) return;
+      retried = true;
+      this.watchers.delete(folder);
+      if (!this.isConnected || this.isClosing) return;
+
+      const nextAttempt = established ? 0 : attempt + 1;
+      setTimeout(() => this.startWatcher(folder, nextAttempt), this.backoffDelay(nextAttempt));
+    };
+
+    watcher.on('error', (err) => {
+      console.error(` IDLE error on ${folder} for ${this.account.user}:`, err);
+    });
+    watcher.on('exists', () => this.scheduleSync(folder));
+    watcher.on('flags', (data) => this.handleFlagsEvent(watcher, data));
+    watcher.on('close', retry);
+
+    try {
+      await watcher.connect();
+      await watcher.mailboxOpen(folder, { readOnly: true });
+      established = true;
+
+      // Pick up anything that arrived between the last sync and IDLE starting
+      this.scheduleSync(folder);
+    } catch (error) {
+      console.error(` Failed to start IDLE on ${folder} for ${this.account.user}:`, error);
+      watcher.close();
+      retry();
+    }
+  }
+
+  /**
+   * Coalesces change notifications into one sync per folder. Runs outside
+   * the event handler because the connection is busy until IDLE is broken.
+   */
+  private scheduleSync(folder: string): void {
+    if (!this.syncFolders.includes(folder) || this.pendingSyncs.has(folder)) return;
+    this.pendingSyncs.add(folder);
+
+    setImmediate(async () => {
+      this.pendingSyncs.delete(folder);
+      if (!this.isConnected) return;
+
+      try {
+        const count = await this.syncAndDeliver(folder);
+        if (count > 0) {
+          console.log(` Detected ${count} new messages in ${folder} for ${this.account.user}`);
+        }
+      } catch (error) {
+        console.error(` Error syncing ${folder} for ${this.account.user}:`, error);
+      }
+    });
+  }
+
+  private stopRealtimeUpdates(): void {
     if (this.pollIntervalId) {
       clearInterval(this.pollIntervalId);
       this.pollIntervalId = undefined;
     }
+
+    const watchers = [...this.watchers.values()];
+    this.watchers.clear();
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.isClosing = true;
+    // A sync still in flight then fails without saving its cursor
+    this.newEmailsHandler = undefined;
+    this.uidValidityChangeHandler = undefined;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.stopRealtimeUpdates();
     
     if (this.isConnected) {
       try {
@@ -214,7 +717,30 @@ export class ImapService extends EventEmitter {
     }
   }
 
-  private convertToEmail(parsed: ParsedMail, uid: number): Email {
+  /**
+   * Raw header values keyed by lower-cased name, for rule matching. Trace and
+   * signature headers are dropped; repeated headers are joined by newlines.
+   */
+  private extractHeaders(parsed: ParsedMail): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const { key, line } of parsed.headerLines || []) {
+      if (SKIPPED_HEADERS.test(key)) continue;
+
+      const value = line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim().slice(0, MAX_HEADER_LENGTH);
+      headers[key] = headers[key] ? `${headers[key]}\n${value}` : value;
+    }
+
+    return headers;
+  }
+
+  private async convertToEmail(
+    parsed: ParsedMail,
+    uid: number,
+    folder: string,
+    uidValidity: string,
+    flags?: Set<string>
+  ): Promise<Email> {
     const extractAddresses = (addrObj?: any): string[] => {
       if (!addrObj) return [];
       const list = Array.isArray(addrObj) ? addrObj : [addrObj];
@@ -239,25 +765,31 @@ export class ImapService extends EventEmitter {
       return out;
     };
 
+    const messageId = parsed.messageId || '';
+    const { attachments, text: attachmentText } = await this.attachmentService.storeAttachments(parsed.attachments || []);
+
     return {
-      id: uuidv4(),
+      id: createEmailId({ accountId: this.account.id, folder, uidValidity, uid, messageId }),
       accountId: this.account.id,
-      messageId: parsed.messageId || uuidv4(),
+      messageId,
       from: parsed.from?.text || '',
       to: extractAddresses(parsed.to),
       cc: extractAddresses(parsed.cc),
+      replyTo: extractAddresses(parsed.replyTo),
       subject: parsed.subject || '(No Subject)',
       body: parsed.text || '',
       html: parsed.html ? parsed.html.toString() : undefined, // FIXED: Convert to string
+      headers: this.extractHeaders(parsed),
       date: parsed.date || new Date(),
-      folder: 'INBOX',
+      folder,
       uid,
-      isRead: false,
-      attachments: (parsed.attachments || []).map((att: any) => ({
-        filename: att.filename || 'unknown',
-        contentType: att.contentType,
-        size: att.size
-      })),
+      uidValidity,
+      inReplyTo: parseMessageIds(parsed.inReplyTo)[0],
+      references: parseMessageIds(parsed.references),
+      isRead: flags?.has('\\Seen') || false,
+      isFlagged: flags?.has('\\Flagged') || false,
+      attachments,
+      attachmentText: attachmentText || undefined,
       timestamp: new Date()
     };
   }
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { Job } from '../types';
+import { JobQueueService } from './jobQueue.service';
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!await check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the job queue');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('JobQueueService', () => {
+  const originalDataDir = config.storage.dataDir;
+  const originalJobs = { ...config.jobs };
+  let dataDir: string;
+  let queue: JobQueueService;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    config.storage.dataDir = dataDir;
+    Object.assign(config.jobs, { pollIntervalMs: 10, backoffBaseMs: 10, backoffMaxMs: 50 });
+    queue = new JobQueueService();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    config.storage.dataDir = originalDataDir;
+    Object.assign(config.jobs, originalJobs);
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const status = async (id: string) => (await queue.getJob(id))?.status;
+
+  it('runs jobs and keeps them in jobs.json', async () => {
+    const seen: string[] = [];
+    queue.register<{ name: string }>('greet', { run: async job => { seen.push(job.payload.name); } });
+    await queue.start();
+
+    const jobs = await queue.enqueueMany('greet', [{ name: 'a' }, { name: 'b' }]);
+    const saved = async (): Promise<Job[]> => JSON.parse(await fs.readFile(path.join(dataDir, 'jobs.json'), 'utf8')).jobs;
+    await waitFor(async () => (await saved()).every(job => job.status === 'completed'));
+
+    expect(seen.sort()).toEqual(['a', 'b']);
+    expect((await saved()).map(job => job.id)).toEqual(jobs.map(job => job.id));
+  });
+
+  it('retries retryable failures with backoff', async () => {
+    let calls = 0;
+    queue.register('flaky', {
+      run: async () => {
+        if (++calls < 3) throw Object.assign(new Error('upstream unavailable'), { status: 503 });
+      }
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('flaky', {});
+    await waitFor(async () => await status(job.id) === 'completed');
+
+    expect(calls).toBe(3);
+    expect((await queue.getJob(job.id))?.attempts).toBe(3);
+  });
+
+  it('fails a job for good on a non-retryable error and reports it once', async () => {
+    const failures: string[] = [];
+    queue.register('broken', {
+      run: async () => {
+        throw Object.assign(new Error('bad request'), { status: 400 });
+      },
+      onFailed: async (job, error) => {
+        failures.push(`${job.id}: ${error.message}`);
+      }
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('broken', {});
+    await waitFor(() => failures.length > 0);
+
+    expect(failures).toEqual([`${job.id}: bad request`]);
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'failed', attempts: 1, lastError: 'bad request' });
+  });
+
+  it('never runs more jobs of a type at once than its concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    queue.register('slow', {
+      run: async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        running--;
+      }
+    }, { concurrency: 2 });
+    await queue.start();
+
+    const jobs = await queue.enqueueMany('slow', [{}, {}, {}, {}, {}]);
+    await waitFor(async () => (await Promise.all(jobs.map(job => status(job.id)))).every(value => value === 'completed'));
+
+    expect(peak).toBe(2);
+  });
+
+  it('requeues jobs interrupted by a restart', async () => {
+    const now = new Date().toISOString();
+    const interrupted: Job = {
+      id: 'j1', type: 'resume', payload: {}, status: 'running', attempts: 1, maxAttempts: 5, runAt: now, createdAt: now, updatedAt: now
+    };
+    await fs.writeFile(path.join(dataDir, 'jobs.json'), JSON.stringify({ jobs: [interrupted] }), 'utf8');
+
+    let ran = 0;
+    queue.register('resume', { run: async () => { ran++; } });
+    await queue.start();
+    await waitFor(async () => await status('j1') === 'completed');
+
+    expect(ran).toBe(1);
+    expect((await queue.getJob('j1'))?.attempts).toBe(2);
+  });
+
+  it('keeps only the newest maxCompleted completed jobs', async () => {
+    config.jobs.maxCompleted = 2;
+    queue.register('quick', { run: async () => undefined });
+    await queue.start();
+
+    for (let index = 0; index < 4; index++) {
+      const job = await queue.enqueue('quick', { index });
+      // Completed, or already pruned
+      await waitFor(async () => [undefined, 'completed'].includes(await status(job.id)));
+    }
+
+    const { jobs } = await queue.listJobs();
+    expect(jobs.map(job => job.payload.index).sort()).toEqual([2, 3]);
+  });
+});
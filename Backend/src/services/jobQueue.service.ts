@@ -0,0 +1,266 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { isRateLimitError, isRetryableError, retryAfterMs } from '../utils/retry';
+import { Job, JobListResult, JobQuery, JobStatus } from '../types';
+
+interface JobStore {
+  jobs: Job[];
+}
+
+export interface JobHandler<T = any> {
+  run(job: Job<T>): Promise<void>;
+  // Called once when a job fails for good (attempts used up or not retryable)
+  onFailed?(job: Job<T>, error: Error): Promise<void>;
+}
+
+export interface JobTypeOptions {
+  concurrency: number;
+  ratePerMinute: number;
+  maxAttempts: number;
+}
+
+interface RegisteredType {
+  handler: JobHandler;
+  options: JobTypeOptions;
+  running: number;
+  // Start times within the last minute, for the rate limit
+  recentStarts: number[];
+  // Set when the upstream API reported a rate limit
+  pausedUntil: number;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Persistent background jobs in DATA_DIR/jobs.json. Jobs survive restarts
+ * (ones interrupted mid-run are retried), failures are retried with
+ * exponential backoff, and each job type has its own concurrency and
+ * per-minute limit. A rate-limit response pauses the whole type until the
+ * server's Retry-After.
+ */
+export class JobQueueService {
+  private store = new JsonStore<JobStore>('jobs.json', { jobs: [] }, { pretty: false });
+  private types: Map<string, RegisteredType> = new Map();
+  private timer?: NodeJS.Timeout;
+  private pumping = false;
+
+  register<T>(type: string, handler: JobHandler<T>, options: Partial<JobTypeOptions> = {}): void {
+    this.types.set(type, {
+      handler,
+      options: { concurrency: 1, ratePerMinute: 60, maxAttempts: config.jobs.maxAttempts, ...options },
+      running: 0,
+      recentStarts: [],
+      pausedUntil: 0
+    });
+  }
+
+  async start(): Promise<void> {
+    const now = new Date().toISOString();
+    let recovered = 0;
+
+    await this.store.update(data => {
+      for (const job of data.jobs) {
+        if (job.status === 'running') {
+          job.status = 'pending';
+          job.runAt = now;
+          job.updatedAt = now;
+          recovered++;
+        }
+      }
+      this.prune(data);
+    });
+
+    if (recovered > 0) {
+      console.log(` Requeued ${recovered} interrupted jobs`);
+    }
+
+    this.timer = setInterval(() => this.pump(), config.jobs.pollIntervalMs);
+    this.pump();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async enqueue<T>(type: string, payload: T, delayMs = 0): Promise<Job<T>> {
+    const [job] = await this.enqueueMany(type, [payload], delayMs);
+    return job;
+  }
+
+  // One write for the whole batch
+  async enqueueMany<T>(type: string, payloads: T[], delayMs = 0): Promise<Job<T>[]> {
+    const registered = this.types.get(type);
+    if (!registered) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    if (payloads.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const runAt = new Date(Date.now() + delayMs).toISOString();
+    const jobs: Job<T>[] = payloads.map(payload => ({
+      id: uuidv4(),
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: registered.options.maxAttempts,
+      runAt,
+      createdAt: now,
+      updatedAt: now
+    }));
+
+    await this.store.update(data => {
+      data.jobs.push(...jobs);
+    });
+
+    this.pump();
+    return jobs;
+  }
+
+  async listJobs(jobQuery: JobQuery = {}): Promise<JobListResult> {
+    const { status, type, limit = 100 } = jobQuery;
+    const { jobs } = await this.store.get();
+
+    const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0 };
+    for (const job of jobs) {
+      if (!type || job.type === type) counts[job.status]++;
+    }
+
+    const matching = jobs
+      .filter(job => (!status || job.status === status) && (!type || job.type === type))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return {
+      jobs: matching.slice(0, limit),
+      total: matching.length,
+      counts
+    };
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const { jobs } = await this.store.get();
+    return jobs.find(job => job.id === id);
+  }
+
+  // Pending and running jobs of a type
+  async activeJobs<T>(type: string): Promise<Job<T>[]> {
+    const { jobs } = await this.store.get();
+    return jobs.filter(job => job.type === type && (job.status === 'pending' || job.status === 'running'));
+  }
+
+  // Gives a failed job a fresh set of attempts
+  async retryJob(id: string): Promise<Job | undefined> {
+    const job = await this.getJob(id);
+    if (!job || job.status !== 'failed') return undefined;
+
+    await this.update(job, { status: 'pending', attempts: 0, runAt: new Date().toISOString(), lastError: undefined });
+    this.pump();
+    return job;
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping || !this.timer) return;
+    this.pumping = true;
+
+    try {
+      const { jobs } = await this.store.get();
+      const now = Date.now();
+
+      const due = jobs
+        .filter(job => job.status === 'pending' && Date.parse(job.runAt) <= now)
+        .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+      for (const job of due) {
+        const registered = this.types.get(job.type);
+        if (!registered || !this.canStart(registered, now)) continue;
+
+        registered.running++;
+        registered.recentStarts.push(now);
+        await this.update(job, { status: 'running', attempts: job.attempts + 1 });
+        this.execute(job, registered);
+      }
+    } catch (error) {
+      console.error(' Error scheduling jobs:', error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private canStart(registered: RegisteredType, now: number): boolean {
+    registered.recentStarts = registered.recentStarts.filter(time => now - time < RATE_WINDOW_MS);
+
+    return now >= registered.pausedUntil
+      && registered.running < registered.options.concurrency
+      && registered.recentStarts.length < registered.options.ratePerMinute;
+  }
+
+  private async execute(job: Job, registered: RegisteredType): Promise<void> {
+    try {
+      await registered.handler.run(job);
+      const completedAt = new Date().toISOString();
+      await this.update(job, { status: 'completed', completedAt, lastError: undefined });
+    } catch (error: any) {
+      await this.handleFailure(job, registered, error);
+    } finally {
+      registered.running--;
+      this.pump();
+    }
+  }
+
+  private async handleFailure(job: Job, registered: RegisteredType, error: any): Promise<void> {
+    const message = error?.message || String(error);
+
+    if (isRetryableError(error) && job.attempts < job.maxAttempts) {
+      const backoff = Math.min(config.jobs.backoffBaseMs * 2 ** (job.attempts - 1), config.jobs.backoffMaxMs);
+      const delay = Math.max(backoff, retryAfterMs(error) || 0);
+
+      if (isRateLimitError(error)) {
+        registered.pausedUntil = Math.max(registered.pausedUntil, Date.now() + delay);
+        console.warn(`  Rate limited running ${job.type} jobs, pausing for ${Math.round(delay / 1000)}s`);
+      }
+
+      await this.update(job, {
+        status: 'pending',
+        runAt: new Date(Date.now() + delay).toISOString(),
+        lastError: message
+      });
+      return;
+    }
+
+    console.error(` Job ${job.id} (${job.type}) failed after ${job.attempts} attempts:`, message);
+    await this.update(job, { status: 'failed', lastError: message });
+
+    try {
+      await registered.handler.onFailed?.(job, error);
+    } catch (hookError) {
+      console.error(` Error handling failure of job ${job.id}:`, hookError);
+    }
+  }
+
+  private async update(job: Job, changes: Partial<Job>): Promise<void> {
+    await this.store.update(data => {
+      Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+      if (changes.status === 'completed') {
+        this.prune(data);
+      }
+    });
+  }
+
+  // Drops completed jobs past the retention period, and the oldest beyond maxCompleted
+  private prune(data: JobStore): void {
+    const cutoff = Date.now() - config.jobs.retentionMs;
+    const completed = data.jobs
+      .filter(job => job.status === 'completed')
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+    const kept = new Set(completed
+      .filter(job => !job.completedAt || Date.parse(job.completedAt) >= cutoff)
+      .slice(0, config.jobs.maxCompleted));
+
+    if (kept.size === completed.length) return;
+    data.jobs = data.jobs.filter(job => job.status !== 'completed' || kept.has(job));
+  }
+}
@@ -0,0 +1,260 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { chunkText } from '../utils/chunking';
+import { extractText } from '../utils/textExtraction';
+import { Bm25Index } from '../utils/bm25';
+import {
+  KnowledgeChunk,
+  KnowledgeDocument,
+  KnowledgeDocumentSummary,
+  KnowledgeFormat,
+  KnowledgeIngestInput,
+  KnowledgeIngestResult
+} from '../types';
+import { LLMProvider } from './llm.service';
+import { VectorRecord, VectorStore } from './vectorStore.service';
+
+interface KnowledgeStore {
+  documents: KnowledgeDocument[];
+}
+
+export interface KnowledgeTextMatch {
+  document: KnowledgeDocument;
+  chunk: KnowledgeChunk;
+  // Raw BM25 score
+  score: number;
+}
+
+interface TextIndex {
+  index: Bm25Index;
+  sources: Map<string, { document: KnowledgeDocument; chunk: KnowledgeChunk }>;
+}
+
+const EXTENSION_FORMATS: Record<string, KnowledgeFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.htm': 'html',
+  '.html': 'html',
+  '.pdf': 'pdf',
+  '.txt': 'text'
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, KnowledgeFormat> = {
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+  'text/plain': 'text'
+};
+
+// Content types handed to the attachment text extractor
+const EXTRACT_CONTENT_TYPES: Partial<Record<KnowledgeFormat, string>> = {
+  html: 'text/html',
+  pdf: 'application/pdf'
+};
+
+export function detectFormat(input: Pick<KnowledgeIngestInput, 'format' | 'filename' | 'contentType' | 'text'>): KnowledgeFormat | null {
+  if (input.format) return input.format;
+
+  const extension = path.extname(input.filename || '').toLowerCase();
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const type = (input.contentType || '').split(';')[0].trim().toLowerCase();
+  if (CONTENT_TYPE_FORMATS[type]) return CONTENT_TYPE_FORMATS[type];
+
+  return input.text !== undefined ? 'text' : null;
+}
+
+function summarize({ chunks, ...document }: KnowledgeDocument): KnowledgeDocumentSummary {
+  return { ...document, chunkCount: chunks.length };
+}
+
+/**
+ * Knowledge base for RAG replies. Documents (Markdown, HTML, PDF or plain
+ * text) are split into overlapping chunks and each chunk is embedded into
+ * the vector store with its source in the metadata. Ingesting a document
+ * again under the same ID creates a new version and replaces its chunks;
+ * the version history is kept in DATA_DIR/knowledge.json.
+ */
+export class KnowledgeService {
+  private store = new JsonStore<KnowledgeStore>('knowledge.json', { documents: [] });
+  private llm: LLMProvider;
+  private vectorStore: VectorStore;
+  // Keyword index over the current chunks, rebuilt after changes
+  private textIndex?: TextIndex;
+
+  constructor(llm: LLMProvider, vectorStore: VectorStore) {
+    this.llm = llm;
+    this.vectorStore = vectorStore;
+  }
+
+  async listDocuments(type?: string): Promise<KnowledgeDocumentSummary[]> {
+    const { documents } = await this.store.get();
+    return documents
+      .filter(document => !type || document.type === type)
+      .map(summarize);
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | undefined> {
+    const { documents } = await this.store.get();
+    return documents.find(document => document.id === id);
+  }
+
+  // BM25 keyword search over the current version of every document
+  async searchText(query: string, topK: number, types?: string[]): Promise<KnowledgeTextMatch[]> {
+    const { index, sources } = await this.getTextIndex();
+
+    return index
+      .search(query, topK, id => !types || types.includes(sources.get(id)!.document.type))
+      .map(match => ({ ...sources.get(match.id)!, score: match.score }));
+  }
+
+  async ingestDocument(input: KnowledgeIngestInput): Promise<KnowledgeIngestResult> {
+    const format = detectFormat(input);
+    if (!format) {
+      throw new Error('Unsupported document format; use Markdown, HTML, PDF or plain text');
+    }
+
+    const text = await this.extract(input, format);
+    if (!text) {
+      throw new Error('The document contains no text');
+    }
+
+    const id = input.id || uuidv4();
+    const current = await this.getDocument(id);
+    const contentHash = createHash('sha256').update(text).digest('hex');
+    const now = new Date().toISOString();
+
+    // Chunk vectors carry the title, type and metadata, so any change to those needs a new version too
+    if (current
+      && current.versions[current.versions.length - 1].contentHash === contentHash
+      && current.title === input.title
+      && current.type === input.type
+      && JSON.stringify(current.metadata) === JSON.stringify(input.metadata || {})) {
+      return { document: current, status: 'unchanged' };
+    }
+
+    const version = (current?.version || 0) + 1;
+    const chunks: KnowledgeChunk[] = chunkText(text, {
+      size: config.knowledge.chunkSize,
+      overlap: config.knowledge.chunkOverlap
+    }).map((chunk, index) => ({ id: `${id}#v${version}#${index}`, index, text: chunk }));
+
+    const document: KnowledgeDocument = {
+      id,
+      title: input.title,
+      type: input.type,
+      metadata: input.metadata || {},
+      version,
+      chunks,
+      versions: [
+        ...(current?.versions || []),
+        {
+          version,
+          contentHash,
+          format,
+          filename: input.filename,
+          characters: text.length,
+          chunkCount: chunks.length,
+          ingestedAt: now
+        }
+      ],
+      createdAt: current?.createdAt || now,
+      updatedAt: now
+    };
+
+    // Embed everything before touching the store so a failure leaves the old version in place
+    const records: VectorRecord[] = [];
+    for (const chunk of chunks) {
+      records.push({
+        id: chunk.id,
+        values: await this.llm.embed(chunk.text),
+        metadata: this.chunkMetadata(document, chunk, input.filename)
+      });
+    }
+
+    await this.vectorStore.upsert(records);
+    await this.saveDocument(document);
+    if (current) {
+      await this.vectorStore.delete(current.chunks.map(chunk => chunk.id));
+    }
+
+    console.log(` Ingested ${document.title} v${version} (${chunks.length} chunks)`);
+    return { document, status: current ? 'updated' : 'created' };
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const document = await this.getDocument(id);
+    if (!document) return false;
+
+    await this.vectorStore.delete(document.chunks.map(chunk => chunk.id));
+    await this.store.update(data => {
+      data.documents = data.documents.filter(entry => entry.id !== id);
+    });
+    this.textIndex = undefined;
+
+    console.log(` Deleted knowledge document ${document.title}`);
+    return true;
+  }
+
+  private async extract(input: KnowledgeIngestInput, format: KnowledgeFormat): Promise<string> {
+    const content = input.content ?? Buffer.from(input.text || '', 'utf8');
+    const maxLength = config.knowledge.maxCharacters;
+
+    // Markdown and plain text keep their blank lines, which mark paragraphs for chunking
+    if (format === 'markdown' || format === 'text') {
+      return content.toString('utf8').replace(/\r\n?/g, '\n').trim().slice(0, maxLength);
+    }
+
+    const text = await extractText(content, EXTRACT_CONTENT_TYPES[format]!, input.filename || '', maxLength);
+    return text || '';
+  }
+
+  // Flat metadata stored with each vector; text is what retrieval returns
+  private chunkMetadata(document: KnowledgeDocument, chunk: KnowledgeChunk, filename?: string): VectorRecord['metadata'] {
+    return {
+      ...document.metadata,
+      text: chunk.text,
+      type: document.type,
+      documentId: document.id,
+      title: document.title,
+      version: document.version,
+      chunkIndex: chunk.index,
+      ...(filename ? { filename } : {})
+    };
+  }
+
+  private async saveDocument(document: KnowledgeDocument): Promise<KnowledgeDocument> {
+    await this.store.update(data => {
+      const index = data.documents.findIndex(entry => entry.id === document.id);
+      if (index >= 0) {
+        data.documents[index] = document;
+      } else {
+        data.documents.push(document);
+      }
+    });
+    this.textIndex = undefined;
+    return document;
+  }
+
+  private async getTextIndex(): Promise<TextIndex> {
+    if (!this.textIndex) {
+      const { documents } = await this.store.get();
+      const sources = new Map<string, { document: KnowledgeDocument; chunk: KnowledgeChunk }>();
+      for (const document of documents) {
+        for (const chunk of document.chunks) {
+          sources.set(chunk.id, { document, chunk });
+        }
+      }
+
+      this.textIndex = {
+        index: new Bm25Index([...sources.values()].map(({ chunk }) => ({ id: chunk.id, text: chunk.text }))),
+        sources
+      };
+    }
+    return this.textIndex;
+  }
+}
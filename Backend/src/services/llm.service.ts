@@ -0,0 +1,155 @@
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { ChatMessage, ChatOptions, LLMProviderName } from '../types';
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingDimension: number;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  embed(text: string): Promise<number[]>;
+}
+
+interface OpenAIProviderOptions {
+  name: LLMProviderName;
+  apiKey: string;
+  baseURL?: string;
+  chatModel: string;
+  embeddingModel: string;
+  embeddingDimension: number;
+  timeoutMs: number;
+}
+
+/**
+ * Chat and embeddings over the OpenAI API. Also used for local
+ * OpenAI-compatible servers (Ollama, llama.cpp, vLLM) via baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingDimension: number;
+  private client: OpenAI;
+  private embeddingModel: string;
+  private configured: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.chatModel = options.chatModel;
+    this.embeddingModel = options.embeddingModel;
+    this.embeddingDimension = options.embeddingDimension;
+    this.configured = Boolean(options.apiKey);
+    this.client = new OpenAI({
+      // The SDK refuses to start without a key; calls are rejected below instead
+      apiKey: options.apiKey || 'not-configured',
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs
+    });
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    this.assertConfigured();
+
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: options.json ? { type: 'json_object' } : undefined
+    });
+
+    return response.choices[0]?.message.content || '';
+  }
+
+  async embed(text: string): Promise<number[]> {
+    this.assertConfigured();
+
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: text
+    });
+
+    return response.data[0].embedding;
+  }
+
+  private assertConfigured(): void {
+    if (!this.configured) {
+      throw new Error('OPENAI_API_KEY is not set; configure it or use LLM_PROVIDER=local or fake');
+    }
+  }
+}
+
+export type FakeResponder = (messages: ChatMessage[], options: ChatOptions) => string;
+
+/**
+ * Deterministic provider for tests and offline development. Chat answers
+ * come from the responder (by default a stable digest of the prompt, or
+ * "{}" for JSON requests). Embeddings hash words into buckets, so texts
+ * sharing words are similar.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fake';
+  readonly chatModel = 'fake';
+  readonly embeddingDimension: number;
+  private responder: FakeResponder;
+
+  constructor(embeddingDimension: number, responder?: FakeResponder) {
+    this.embeddingDimension = embeddingDimension;
+    this.responder = responder || ((messages, options) => {
+      if (options.json) return '{}';
+      const digest = createHash('sha1').update(JSON.stringify(messages)).digest('hex').slice(0, 12);
+      return `Fake response ${digest}`;
+    });
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    return this.responder(messages, options);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.embeddingDimension).fill(0);
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      const hash = createHash('md5').update(word).digest();
+      const bucket = hash.readUInt32BE(0) % this.embeddingDimension;
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+export function createLLMProvider(): LLMProvider {
+  const { provider, baseUrl, apiKey, chatModel, embeddingModel, embeddingDimension, timeoutMs } = config.llm;
+
+  switch (provider) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        console.warn('  OPENAI_API_KEY is not set - AI categorization and replies will fail');
+      }
+      return new OpenAIProvider({
+        name: 'openai',
+        apiKey: config.openai.apiKey,
+        chatModel,
+        embeddingModel,
+        embeddingDimension,
+        timeoutMs
+      });
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        // Local servers generally ignore the key but the API requires one
+        apiKey: apiKey || 'local',
+        baseURL: baseUrl,
+        chatModel,
+        embeddingModel,
+        embeddingDimension,
+        timeoutMs
+      });
+    case 'fake':
+      return new FakeProvider(embeddingDimension);
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
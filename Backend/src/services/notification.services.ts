@@ -1,119 +1,376 @@
 import { IncomingWebhook } from '@slack/webhook';
 import axios from 'axios';
 import { config } from '../config';
-import { Email, EmailCategory } from '../types';
+import { JsonStore } from '../utils/jsonStore';
+import { renderTemplate } from '../utils/template';
+import { Email, EmailCategory, Category, DigestItem, NotificationChannelType, NotificationRoute } from '../types';
 
+interface DigestStore {
+  // Pending digest items by route ID
+  digests: Record<string, DigestItem[]>;
+}
+
+interface NotificationLogStore {
+  // When each "<routeId>:<emailId>" was notified (or added to a digest)
+  notified: Record<string, string>;
+}
+
+// A rendered notification, ready for any chat or webhook channel
+interface ChannelMessage {
+  title: string;
+  body: string;
+  footer: string;
+  timestamp: Date;
+  color: string;
+  // Event and data for generic webhooks
+  event: string;
+  data: Record<string, any>;
+}
+
+export interface DigestMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export const DEFAULT_DIGEST_INTERVAL_MINUTES = 60;
+
+/**
+ * Template fields for single-email routes: from, to, subject, category,
+ * confidence, reasoning, preview, date, emailId, accountId and route.
+ * Digest titles get count and route; digest bodies are rendered once per
+ * email with the same fields as above (minus to, confidence and reasoning).
+ * Summaries for chat and webhook routes always use the digest defaults.
+ */
+const DEFAULT_TITLE = 'New {{category}} email';
+
+const DEFAULT_BODIES: Record<NotificationChannelType, string> = {
+  slack: '*From:* {{from}}\n*Subject:* {{subject}}\n*Preview:* {{preview}}',
+  teams: '**From:** {{from}}\n**Subject:** {{subject}}\n\n{{preview}}',
+  discord: '**From:** {{from}}\n**Subject:** {{subject}}\n\n{{preview}}',
+  webhook: 'From: {{from}}\nSubject: {{subject}}\n\n{{preview}}',
+  'email-digest': '[{{category}}] {{subject}} - {{from}} ({{date}})'
+};
+
+const DEFAULT_DIGEST_TITLE = '{{count}} new emails for {{route}}';
+
+const DEFAULT_COLOR = '#607d8b';
+
+const PREVIEW_LENGTH = 200;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function preview(email: Email): string {
+  return (email.body || '').substring(0, PREVIEW_LENGTH);
+}
+
+/**
+ * Sends route notifications (see NotificationRouteService) to Slack, Teams
+ * and Discord incoming webhooks and generic JSON webhooks. Emails held back
+ * (email digest routes, quiet hours, bursts over the route's throttle) are
+ * collected here as the route's digest until the digest job sends them. A
+ * log of notified emails makes sure each email notifies a route only once.
+ */
 export class NotificationService {
-  private slackWebhook: IncomingWebhook;
+  private digests = new JsonStore<DigestStore>('digests.json', { digests: {} });
+  private log = new JsonStore<NotificationLogStore>('notification-log.json', { notified: {} });
+  // Recent send times by route ID, for throttling
+  private recentSends: Map<string, number[]> = new Map();
+  // "<routeId>:<emailId>" pairs a notify job is handling right now
+  private claims: Set<string> = new Set();
 
-  constructor() {
-    this.slackWebhook = new IncomingWebhook(config.slack.webhookUrl);
+  async wasNotified(routeId: string, emailId: string): Promise<boolean> {
+    const { notified } = await this.log.get();
+    return notified[`${routeId}:${emailId}`] !== undefined;
   }
 
-  async sendSlackNotification(email: Email): Promise<void> {
-    if (!config.slack.webhookUrl) {
-      console.warn('  Slack webhook URL not configured');
-      return;
-    }
+  /**
+   * Claims an email for a route before notifying, so concurrent jobs for the
+   * same pair can't both send. False when it was notified already or another
+   * job holds the claim; release it once recorded or failed.
+   */
+  async claimNotification(routeId: string, emailId: string): Promise<boolean> {
+    const key = `${routeId}:${emailId}`;
+    const { notified } = await this.log.get();
+    if (notified[key] !== undefined || this.claims.has(key)) return false;
 
-    try {
-      await this.slackWebhook.send({
-        text: ' New Interested Email!',
-        blocks: [
-          {
-            type: 'header',
-            text: {
-              type: 'plain_text',
-              text: ' New Interested Email Received',
-              emoji: true
-            }
-          },
-          {
-            type: 'section',
-            fields: [
-              {
-                type: 'mrkdwn',
-                text: `*From:*\n${email.from}`
-              },
-              {
-                type: 'mrkdwn',
-                text: `*Subject:*\n${email.subject}`
-              }
-            ]
-          },
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: `*Preview:*\n${email.body.substring(0, 200)}...`
-            }
-          },
-          {
-            type: 'context',
-            elements: [
-              {
-                type: 'mrkdwn',
-                text: ` Email ID: ${email.id} |  ${email.date.toLocaleString()}`
-              }
-            ]
-          }
-        ]
-      });
+    this.claims.add(key);
+    return true;
+  }
 
-      console.log(`Slack notification sent for email: ${email.id}`);
-    } catch (error) {
-      console.error(' Error sending Slack notification:', error);
-      throw error;
-    }
+  releaseNotification(routeId: string, emailId: string): void {
+    this.claims.delete(`${routeId}:${emailId}`);
   }
 
-  async triggerWebhook(email: Email): Promise<void> {
-    if (!config.webhook.url) {
-      console.warn('  Webhook URL not configured');
-      return;
+  async recordNotified(routeId: string, emailId: string): Promise<void> {
+    const cutoff = Date.now() - config.notifications.dedupeRetentionDays * 24 * 60 * 60 * 1000;
+
+    await this.log.update(data => {
+      data.notified[`${routeId}:${emailId}`] = new Date().toISOString();
+      for (const [key, notifiedAt] of Object.entries(data.notified)) {
+        if (Date.parse(notifiedAt) < cutoff) delete data.notified[key];
+      }
+    });
+  }
+
+  /**
+   * How long until the route may send again, or 0 when it's under its
+   * throttle limit. Counts the send when it's allowed.
+   */
+  takeThrottleSlot(route: NotificationRoute): number {
+    const limit = route.throttle?.limit ?? config.notifications.throttleLimit;
+    const windowMs = (route.throttle?.windowMinutes ?? config.notifications.throttleWindowMinutes) * 60_000;
+    if (limit <= 0) return 0;
+
+    const now = Date.now();
+    const recent = (this.recentSends.get(route.id) || []).filter(time => now - time < windowMs);
+
+    if (recent.length >= limit) {
+      this.recentSends.set(route.id, recent);
+      return recent[0] + windowMs - now;
     }
 
-    const payload = {
-      event: 'email.interested',
-      timestamp: new Date().toISOString(),
+    recent.push(now);
+    this.recentSends.set(route.id, recent);
+    return 0;
+  }
+
+  // Throws on delivery errors so the notification job can be retried
+  async deliver(route: NotificationRoute, email: Email, category?: Category): Promise<void> {
+    const fields = {
+      route: route.name,
+      emailId: email.id,
+      accountId: email.accountId,
+      from: email.from,
+      to: (email.to || []).join(', '),
+      subject: email.subject,
+      category: email.category,
+      confidence: email.classification?.confidence,
+      reasoning: email.classification?.reasoning,
+      date: new Date(email.date).toLocaleString(),
+      preview: preview(email)
+    };
+
+    await this.send(route, {
+      title: renderTemplate(route.templates.title || DEFAULT_TITLE, fields),
+      body: renderTemplate(route.templates.body || DEFAULT_BODIES[route.channel.type], fields),
+      footer: `Email ID: ${email.id}`,
+      timestamp: new Date(email.date),
+      color: category?.color || DEFAULT_COLOR,
+      event: route.channel.legacyEvents && email.category === EmailCategory.INTERESTED ? 'email.interested' : 'email.categorized',
       data: {
         emailId: email.id,
+        accountId: email.accountId,
         from: email.from,
         to: email.to,
         subject: email.subject,
         category: email.category,
+        categoryId: category?.id,
+        confidence: email.classification?.confidence,
         date: email.date,
-        preview: email.body.substring(0, 200)
+        preview: preview(email)
       }
-    };
+    });
 
-    try {
-      const response = await axios.post(config.webhook.url, payload, {
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+    console.log(` Notification sent via ${route.name} for email: ${email.id}`);
+  }
 
-      console.log(` Webhook triggered for email: ${email.id}, Status: ${response.status}`);
-    } catch (error) {
-      console.error(' Error triggering webhook:', error);
-      throw error;
-    }
+  // One message for emails held back by quiet hours or the throttle
+  async deliverSummary(route: NotificationRoute, items: DigestItem[]): Promise<void> {
+    const { subject, text } = this.renderDigest(route, items);
+
+    await this.send(route, {
+      title: subject,
+      body: text,
+      footer: `${items.length} emails`,
+      timestamp: new Date(),
+      color: DEFAULT_COLOR,
+      event: 'email.summary',
+      data: { emails: items }
+    });
+
+    console.log(` Summary of ${items.length} emails sent via ${route.name}`);
   }
 
-  async handleInterestedEmail(email: Email): Promise<void> {
-    console.log(` Handling Interested email: ${email.subject}`);
-    
-    try {
-      // Send both notifications in parallel
-      await Promise.all([
-        this.sendSlackNotification(email),
-        this.triggerWebhook(email)
-      ]);
-      
-      console.log(` All notifications sent for Interested email: ${email.id}`);
-    } catch (error) {
-      console.error(' Error handling Interested email notifications:', error);
+  private async send(route: NotificationRoute, message: ChannelMessage): Promise<void> {
+    const url = route.channel.url || '';
+
+    switch (route.channel.type) {
+      case 'slack':
+        await this.sendSlackNotification(url, message);
+        break;
+      case 'teams':
+        await this.sendTeamsNotification(url, message);
+        break;
+      case 'discord':
+        await this.sendDiscordNotification(url, message);
+        break;
+      case 'webhook':
+        await this.triggerWebhook(url, route, message);
+        break;
+      default:
+        throw new Error(`${route.channel.type} routes are sent by email`);
     }
   }
-}
\ No newline at end of file
+
+  private async sendSlackNotification(url: string, { title, body, footer, timestamp }: ChannelMessage): Promise<void> {
+    await new IncomingWebhook(url, { timeout: config.webhook.timeoutMs }).send({
+      text: title,
+      blocks: [
+        {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: title.substring(0, 150),
+            emoji: true
+          }
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: body.substring(0, 3000)
+          }
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: ` ${footer} |  ${timestamp.toLocaleString()}`
+            }
+          ]
+        }
+      ]
+    });
+  }
+
+  // MessageCard payload, accepted by Teams incoming webhooks
+  private async sendTeamsNotification(url: string, { title, body, color }: ChannelMessage): Promise<void> {
+    await axios.post(url, {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      summary: title,
+      themeColor: color.replace('#', ''),
+      title,
+      // Teams markdown only breaks lines on blank lines
+      text: body.replace(/\n/g, '\n\n')
+    }, { timeout: config.webhook.timeoutMs });
+  }
+
+  private async sendDiscordNotification(url: string, { title, body, footer, timestamp, color }: ChannelMessage): Promise<void> {
+    await axios.post(url, {
+      embeds: [
+        {
+          title: title.substring(0, 256),
+          description: body.substring(0, 4096),
+          color: parseInt(color.replace('#', ''), 16),
+          timestamp: timestamp.toISOString(),
+          footer: { text: footer }
+        }
+      ]
+    }, { timeout: config.webhook.timeoutMs });
+  }
+
+  private async triggerWebhook(url: string, route: NotificationRoute, message: ChannelMessage): Promise<void> {
+    const payload = {
+      event: message.event,
+      timestamp: new Date().toISOString(),
+      route: { id: route.id, name: route.name },
+      title: message.title,
+      text: message.body,
+      data: message.data
+    };
+
+    const response = await axios.post(url, payload, {
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: config.webhook.timeoutMs
+    });
+
+    console.log(` Webhook triggered for ${message.event} via ${route.name}, Status: ${response.status}`);
+  }
+
+  /**
+   * Adds an email to a route's pending digest. Returns true when this starts
+   * a new digest, so the caller can schedule sending it.
+   */
+  async addToDigest(route: NotificationRoute, email: Email): Promise<boolean> {
+    let started = false;
+
+    await this.digests.update(data => {
+      const items = data.digests[route.id] || [];
+      if (items.some(item => item.emailId === email.id)) return;
+
+      started = items.length === 0;
+      items.push(this.toDigestItem(email));
+      data.digests[route.id] = items;
+    });
+
+    return started;
+  }
+
+  async pendingDigest(routeId: string): Promise<DigestItem[]> {
+    const { digests } = await this.digests.get();
+    return [...(digests[routeId] || [])];
+  }
+
+  // Removes sent items; ones added while sending wait for the next digest
+  async clearDigest(routeId: string, emailIds: string[]): Promise<void> {
+    await this.digests.update(data => {
+      const remaining = (data.digests[routeId] || []).filter(item => !emailIds.includes(item.emailId));
+      if (remaining.length > 0) {
+        data.digests[routeId] = remaining;
+      } else {
+        delete data.digests[routeId];
+      }
+    });
+  }
+
+  toDigestItem(email: Email): DigestItem {
+    return {
+      emailId: email.id,
+      accountId: email.accountId,
+      from: email.from,
+      subject: email.subject,
+      category: email.category,
+      date: email.date,
+      preview: preview(email),
+      addedAt: new Date().toISOString()
+    };
+  }
+
+  renderDigest(route: NotificationRoute, items: DigestItem[]): DigestMessage {
+    // Chat and webhook templates are written for single emails
+    const templates = route.channel.type === 'email-digest' ? route.templates : {};
+
+    const subject = renderTemplate(templates.title || DEFAULT_DIGEST_TITLE, {
+      count: items.length,
+      route: route.name
+    });
+
+    const lines = items.map(item => renderTemplate(templates.body || DEFAULT_BODIES['email-digest'], {
+      route: route.name,
+      emailId: item.emailId,
+      accountId: item.accountId,
+      from: item.from,
+      subject: item.subject,
+      category: item.category,
+      date: new Date(item.date).toLocaleString(),
+      preview: item.preview
+    }));
+
+    return {
+      subject,
+      text: lines.join('\n'),
+      html: `<ul>${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+    };
+  }
+}
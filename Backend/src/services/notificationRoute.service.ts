@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { matchesSenderDomain } from '../utils/threading';
+import { Category, Email, NotificationRoute, NotificationRouteInput } from '../types';
+
+interface RouteStore {
+  routes: NotificationRoute[];
+}
+
+// The env-configured Slack and webhook URLs become routes on first start
+function defaultRoutes(): NotificationRoute[] {
+  const createdAt = new Date(0).toISOString();
+  const routes: NotificationRoute[] = [];
+
+  if (config.slack.webhookUrl) {
+    routes.push({
+      id: 'slack',
+      name: 'Slack',
+      enabled: true,
+      conditions: {},
+      channel: { type: 'slack', url: config.slack.webhookUrl },
+      templates: {},
+      createdAt,
+      updatedAt: createdAt
+    });
+  }
+  if (config.webhook.url) {
+    routes.push({
+      id: 'webhook',
+      name: 'Webhook',
+      enabled: true,
+      conditions: {},
+      channel: { type: 'webhook', url: config.webhook.url, legacyEvents: true },
+      templates: {},
+      createdAt,
+      updatedAt: createdAt
+    });
+  }
+  return routes;
+}
+
+export class NotificationRouteService {
+  private store = new JsonStore<RouteStore>('notification-routes.json', { routes: defaultRoutes() });
+
+  async listRoutes(): Promise<NotificationRoute[]> {
+    const { routes } = await this.store.get();
+    return [...routes];
+  }
+
+  async getRoute(id: string): Promise<NotificationRoute | undefined> {
+    const { routes } = await this.store.get();
+    return routes.find(route => route.id === id);
+  }
+
+  async createRoute(input: NotificationRouteInput): Promise<NotificationRoute> {
+    const now = new Date().toISOString();
+    const route: NotificationRoute = { ...input, id: uuidv4(), createdAt: now, updatedAt: now };
+
+    await this.store.update(data => {
+      data.routes.push(route);
+    });
+
+    console.log(` Created notification route ${route.name}`);
+    return route;
+  }
+
+  async updateRoute(id: string, changes: Partial<NotificationRouteInput>): Promise<NotificationRoute | undefined> {
+    const current = await this.getRoute(id);
+    if (!current) return undefined;
+
+    const updated: NotificationRoute = {
+      ...current,
+      ...changes,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.store.update(data => {
+      const index = data.routes.findIndex(route => route.id === id);
+      data.routes[index] = updated;
+    });
+
+    return updated;
+  }
+
+  async deleteRoute(id: string): Promise<boolean> {
+    const { routes } = await this.store.get();
+    if (!routes.some(route => route.id === id)) return false;
+
+    await this.store.update(data => {
+      data.routes = data.routes.filter(route => route.id !== id);
+    });
+    console.log(` Deleted notification route ${id}`);
+    return true;
+  }
+
+  // Keeps category conditions pointing at a category after it's renamed
+  async renameCategory(from: string, to: string): Promise<void> {
+    const { routes } = await this.store.get();
+    if (!routes.some(route => route.conditions.categories?.includes(from))) return;
+
+    await this.store.update(data => {
+      for (const route of data.routes) {
+        if (route.conditions.categories?.includes(from)) {
+          route.conditions = {
+            ...route.conditions,
+            categories: route.conditions.categories.map(name => name === from ? to : name)
+          };
+        }
+      }
+    });
+  }
+
+  async matchingRoutes(email: Email, category?: Category): Promise<NotificationRoute[]> {
+    const routes = await this.listRoutes();
+    return routes.filter(route => route.enabled && this.matches(route, email, category));
+  }
+
+  private matches(route: NotificationRoute, email: Email, category?: Category): boolean {
+    const { categories, accountIds, senderDomains, keywords, minConfidence } = route.conditions;
+
+    if (categories && categories.length > 0) {
+      if (!email.category || !categories.includes(email.category)) return false;
+    } else if (!category?.notify) {
+      return false;
+    }
+
+    if (accountIds && accountIds.length > 0 && !accountIds.includes(email.accountId)) {
+      return false;
+    }
+
+    if (senderDomains && senderDomains.length > 0 && !matchesSenderDomain(email.from, senderDomains)) {
+      return false;
+    }
+
+    if (keywords && keywords.length > 0) {
+      const text = `${email.subject || ''}\n${email.body || ''}`.toLowerCase();
+      if (!keywords.some(keyword => text.includes(keyword.toLowerCase()))) return false;
+    }
+
+    if (minConfidence !== undefined && (email.classification?.confidence ?? 1) < minConfidence) {
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,160 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config';
+import { EmailAccount } from '../types';
+import { AccountService } from './account.service';
+import { OAuthService } from './oauth.service';
+import { SmtpService } from './smtp.service';
+
+interface TokenRequest {
+  params: URLSearchParams;
+}
+
+// A mock token endpoint that answers with the queued responses in order
+describe('OAuthService', () => {
+  const originalProvider = { ...config.oauth.providers.google };
+  let server: Server;
+  let requests: TokenRequest[] = [];
+  let responses: Array<{ status: number; body: object }> = [];
+  let accountService: { updateAccount: ReturnType<typeof vi.fn> };
+  let service: OAuthService;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ params: new URLSearchParams(body) });
+        const response = responses.shift() || { status: 500, body: { error: 'no response queued' } };
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    Object.assign(config.oauth.providers.google, {
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      tokenUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`
+    });
+  });
+
+  afterAll(async () => {
+    Object.assign(config.oauth.providers.google, originalProvider);
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responses = [];
+    accountService = { updateAccount: vi.fn(async () => undefined) };
+    service = new OAuthService(accountService as unknown as AccountService);
+  });
+
+  const oauthAccount = (expiresInMs: number): EmailAccount => ({
+    id: 'a1',
+    user: 'alice@gmail.com',
+    password: '',
+    host: '127.0.0.1',
+    port: 993,
+    name: 'Alice',
+    authType: 'oauth2',
+    oauth2: {
+      provider: 'google',
+      accessToken: 'old-token',
+      refreshToken: 'refresh-token',
+      expiresAt: new Date(Date.now() + expiresInMs).toISOString()
+    }
+  });
+
+  it('exchanges an authorization code for tokens', async () => {
+    responses.push({ status: 200, body: { access_token: 'access', refresh_token: 'refresh', expires_in: 3600 } });
+
+    const tokens = await service.exchangeCode('google', 'the-code');
+
+    expect(Object.fromEntries(requests[0].params)).toEqual({
+      grant_type: 'authorization_code',
+      code: 'the-code',
+      redirect_uri: config.oauth.redirectUri,
+      client_id: 'client-id',
+      client_secret: 'client-secret'
+    });
+    expect(tokens).toMatchObject({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(new Date(tokens.expiresAt!).getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+  });
+
+  it('uses the stored access token until it is about to expire', async () => {
+    expect(await service.getAccessToken(oauthAccount(10 * 60 * 1000))).toBe('old-token');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('refreshes an expiring token once for concurrent callers and stores it', async () => {
+    responses.push({ status: 200, body: { access_token: 'new-token', expires_in: 3600 } });
+    const account = oauthAccount(30 * 1000);
+
+    const tokens = await Promise.all([service.getAccessToken(account), service.getAccessToken(account)]);
+
+    expect(tokens).toEqual(['new-token', 'new-token']);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].params.get('grant_type')).toBe('refresh_token');
+    expect(requests[0].params.get('refresh_token')).toBe('refresh-token');
+    // The provider didn't rotate the refresh token, so the old one is kept
+    expect(account.oauth2).toMatchObject({ accessToken: 'new-token', refreshToken: 'refresh-token' });
+    expect(accountService.updateAccount).toHaveBeenCalledWith('a1', { oauth2: account.oauth2 });
+  });
+
+  it('reports the error description from a rejected refresh', async () => {
+    responses.push({ status: 400, body: { error: 'invalid_grant', error_description: 'Token has been revoked' } });
+
+    await expect(service.getAccessToken(oauthAccount(0))).rejects.toThrow('OAuth2 token request to google failed: Token has been revoked');
+  });
+
+  describe('with SMTP', () => {
+    let smtp: SMTPServer;
+    let accessTokens: string[] = [];
+
+    beforeAll(async () => {
+      smtp = new SMTPServer({
+        authMethods: ['XOAUTH2'],
+        allowInsecureAuth: true,
+        disabledCommands: ['STARTTLS'],
+        onAuth: (auth, session, callback) => {
+          accessTokens.push(auth.accessToken || '');
+          return auth.accessToken === 'new-token'
+            ? callback(null, { user: auth.username })
+            : callback(null, { data: { status: '401', schemes: 'bearer' } });
+        },
+        onData: (stream, session, callback) => {
+          stream.resume();
+          stream.on('end', () => callback());
+        }
+      });
+      await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => smtp.close(() => resolve()));
+    });
+
+    afterEach(() => {
+      accessTokens = [];
+    });
+
+    it('logs in over XOAUTH2 with a refreshed token', async () => {
+      responses.push({ status: 200, body: { access_token: 'new-token', expires_in: 3600 } });
+      const account: EmailAccount = {
+        ...oauthAccount(0),
+        smtp: { host: '127.0.0.1', port: (smtp.server.address() as AddressInfo).port, secure: false, security: 'none', saveToSent: false }
+      };
+      const sender = new SmtpService(account, service);
+
+      await sender.sendMessage({ to: ['bob@example.com'], subject: 'Hello', text: 'Hi' });
+      sender.close();
+
+      expect(accessTokens).toEqual(['new-token']);
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
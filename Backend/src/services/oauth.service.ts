@@ -0,0 +1,164 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { EmailAccount, OAuthProviderName, OAuthTokenSet, PendingAuthorization } from '../types';
+import { AccountService } from './account.service';
+
+// Authorization requests not completed within this window are dropped
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+export class OAuthService {
+  private accountService: AccountService;
+  private pending: Map<string, PendingAuthorization> = new Map();
+  private refreshes: Map<string, Promise<string>> = new Map();
+
+  constructor(accountService: AccountService) {
+    this.accountService = accountService;
+  }
+
+  isSupportedProvider(provider: string): provider is OAuthProviderName {
+    return provider in config.oauth.providers;
+  }
+
+  getProvider(provider: OAuthProviderName) {
+    return config.oauth.providers[provider];
+  }
+
+  /**
+   * Starts the authorization-code flow. The returned state ties the callback
+   * back to the account being created or re-authorized.
+   */
+  createAuthorizationUrl(request: Omit<PendingAuthorization, 'createdAt'>): { url: string; state: string } {
+    const provider = this.getProvider(request.provider);
+    if (!provider.clientId) {
+      throw new Error(`OAuth client is not configured for ${request.provider}`);
+    }
+
+    this.prunePending();
+    const state = randomBytes(16).toString('hex');
+    this.pending.set(state, { ...request, createdAt: Date.now() });
+
+    const params = new URLSearchParams({
+      client_id: provider.clientId,
+      redirect_uri: config.oauth.redirectUri,
+      response_type: 'code',
+      scope: provider.scope,
+      state,
+      access_type: 'offline',
+      prompt: 'consent'
+    });
+    if (request.user) {
+      params.set('login_hint', request.user);
+    }
+
+    return { url: `${provider.authorizeUrl}?${params.toString()}`, state };
+  }
+
+  takePending(state: string): PendingAuthorization | undefined {
+    this.prunePending();
+    const pending = this.pending.get(state);
+    this.pending.delete(state);
+    return pending;
+  }
+
+  async exchangeCode(providerName: OAuthProviderName, code: string): Promise<OAuthTokenSet> {
+    return this.requestToken(providerName, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.oauth.redirectUri
+    });
+  }
+
+  /**
+   * Returns a valid access token for an OAuth2 account, refreshing it when it
+   * is about to expire. Refreshed tokens are written back to the account
+   * store and onto the passed account so long-lived services stay current.
+   */
+  async getAccessToken(account: EmailAccount, forceRefresh = false): Promise<string> {
+    const credentials = account.oauth2;
+    if (!credentials) {
+      throw new Error(`Account ${account.user} has no OAuth2 credentials`);
+    }
+
+    const expiresAt = credentials.expiresAt ? new Date(credentials.expiresAt).getTime() : 0;
+    if (!forceRefresh && credentials.accessToken && expiresAt - config.oauth.refreshSkewMs > Date.now()) {
+      return credentials.accessToken;
+    }
+
+    // Concurrent connections for the same account share one refresh
+    const inFlight = this.refreshes.get(account.id);
+    if (inFlight) return inFlight;
+
+    const refresh = this.refreshAccessToken(account).finally(() => {
+      this.refreshes.delete(account.id);
+    });
+    this.refreshes.set(account.id, refresh);
+    return refresh;
+  }
+
+  private async refreshAccessToken(account: EmailAccount): Promise<string> {
+    const credentials = account.oauth2!;
+    if (!credentials.refreshToken) {
+      throw new Error(`Access token expired for ${account.user} and no refresh token is stored`);
+    }
+
+    console.log(` Refreshing OAuth2 access token for ${account.user}`);
+    const tokens = await this.requestToken(credentials.provider, {
+      grant_type: 'refresh_token',
+      refresh_token: credentials.refreshToken
+    });
+
+    account.oauth2 = {
+      ...credentials,
+      accessToken: tokens.accessToken,
+      // Providers may rotate the refresh token
+      refreshToken: tokens.refreshToken || credentials.refreshToken,
+      expiresAt: tokens.expiresAt
+    };
+
+    await this.accountService.updateAccount(account.id, { oauth2: account.oauth2 });
+    return tokens.accessToken;
+  }
+
+  private async requestToken(providerName: OAuthProviderName, params: Record<string, string>): Promise<OAuthTokenSet> {
+    const provider = this.getProvider(providerName);
+
+    try {
+      const response = await axios.post(
+        provider.tokenUrl,
+        new URLSearchParams({
+          ...params,
+          client_id: provider.clientId,
+          client_secret: provider.clientSecret
+        }).toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: 15000
+        }
+      );
+
+      const { access_token, refresh_token, expires_in } = response.data;
+      if (!access_token) {
+        throw new Error('Token response did not include an access token');
+      }
+
+      return {
+        accessToken: access_token,
+        refreshToken: refresh_token,
+        expiresAt: expires_in ? new Date(Date.now() + expires_in * 1000).toISOString() : undefined
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      throw new Error(`OAuth2 token request to ${providerName} failed: ${detail}`);
+    }
+  }
+
+  private prunePending(): void {
+    const cutoff = Date.now() - PENDING_TTL_MS;
+    for (const [state, pending] of this.pending.entries()) {
+      if (pending.createdAt < cutoff) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
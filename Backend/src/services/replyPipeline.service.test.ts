@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatOptions, Email, RetrievalOptions, RetrievalResult, RetrievedContext } from '../types';
+import { LLMProvider } from './llm.service';
+import { ContextRetriever, ReplyPipeline, ReplyPostProcessor } from './replyPipeline.service';
+
+const EMAIL: Email = {
+  id: 'e1',
+  accountId: 'a1',
+  messageId: '<m1@acme.com>',
+  from: 'Jane Doe <jane@acme.com>',
+  to: ['sales@example.com'],
+  subject: 'Pricing question',
+  body: 'How much is the Pro plan?',
+  date: new Date('2026-01-05T12:00:00Z'),
+  folder: 'INBOX',
+  uid: 1,
+  isRead: false,
+  attachments: [],
+  timestamp: new Date('2026-01-05T12:00:00Z')
+};
+
+const CITATION: RetrievedContext = {
+  chunkId: 'pricing#v1#0',
+  documentId: 'pricing',
+  title: 'Pricing',
+  type: 'product_context',
+  text: 'The Pro plan costs 49 dollars per month.',
+  score: 0.82
+};
+
+class StubLLM implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly chatModel = 'stub';
+  readonly embeddingDimension = 3;
+  calls: Array<{ messages: ChatMessage[]; options?: ChatOptions }> = [];
+
+  constructor(private reply: string) {}
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    this.calls.push({ messages, options });
+    return this.reply;
+  }
+
+  async embed(): Promise<number[]> {
+    return [0, 0, 0];
+  }
+}
+
+class StubRetriever implements ContextRetriever {
+  queries: Array<{ queryText: string; options?: RetrievalOptions }> = [];
+
+  constructor(private citations: RetrievedContext[]) {}
+
+  async retrieve(queryText: string, options?: RetrievalOptions): Promise<RetrievalResult> {
+    this.queries.push({ queryText, options });
+    return {
+      retrieval: { mode: 'vector', topK: 3, minScore: 0.7 },
+      candidates: this.citations,
+      citations: this.citations
+    };
+  }
+}
+
+describe('ReplyPipeline', () => {
+  it('retrieves, prompts, generates and post-processes a reply', async () => {
+    const llm = new StubLLM('  Hi Jane, the Pro plan is 49 dollars a month. Call me on +44 20 7946 0958. [Your Name]  ');
+    const retriever = new StubRetriever([CITATION]);
+    const pipeline = new ReplyPipeline(llm, retriever);
+
+    const result = await pipeline.run({ email: EMAIL, options: { tone: 'casual', length: 'short' }, retrieval: { topK: 2 } });
+
+    expect(retriever.queries).toEqual([{ queryText: 'Pricing question How much is the Pro plan?', options: { topK: 2 } }]);
+
+    const prompt = llm.calls[0].messages[1].content;
+    expect(prompt).toContain('1. The Pro plan costs 49 dollars per month.');
+    expect(prompt).toContain('From: Jane Doe <jane@acme.com>');
+    expect(prompt).toContain('Tone: Casual');
+    expect(prompt).toContain('Length: Short');
+
+    expect(result.reply).toBe('Hi Jane, the Pro plan is 49 dollars a month. Call me on +44 20 7946 0958. [Your Name]');
+    expect(result.confidence).toBe(0.82);
+    expect(result.warnings.map(warning => warning.check)).toEqual(['placeholders', 'pii']);
+  });
+
+  it('says so instead of asking the model when nothing relevant is found', async () => {
+    const llm = new StubLLM('unused');
+    const reply = await new ReplyPipeline(llm, new StubRetriever([])).suggestReply(EMAIL);
+
+    expect(llm.calls).toHaveLength(0);
+    expect(reply.confidence).toBe(0);
+    expect(reply.citations).toEqual([]);
+  });
+
+  it('runs added post-processors in order on the previous output', async () => {
+    const redact: ReplyPostProcessor = {
+      name: 'redact',
+      process: reply => ({ reply: reply.replace(/49/g, 'XX'), warnings: ['Redacted a price'] })
+    };
+    const pipeline = new ReplyPipeline(new StubLLM('The plan is 49 dollars.'), new StubRetriever([CITATION]), []);
+    pipeline.addPostProcessor(redact);
+
+    const result = await pipeline.run({ email: EMAIL });
+
+    expect(result.reply).toBe('The plan is XX dollars.');
+    expect(result.warnings).toEqual([{ check: 'redact', message: 'Redacted a price' }]);
+  });
+});
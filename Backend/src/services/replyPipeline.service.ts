@@ -0,0 +1,323 @@
+import { config } from '../config';
+import { countWords, findPiiLeaks, findPlaceholders, LENGTH_WORD_LIMITS } from '../utils/replyChecks';
+import {
+  ChatMessage,
+  ChatOptions,
+  DraftOptions,
+  Email,
+  ReplyLength,
+  ReplyTone,
+  ReplyWarning,
+  RetrievalOptions,
+  RetrievalResult,
+  RetrievedContext,
+  SuggestedReply
+} from '../types';
+import { LLMProvider } from './llm.service';
+
+/**
+ * Retrieval stage: finds knowledge base context for a query. VectorService
+ * is the default; anything else that returns scored chunks can be plugged in.
+ */
+export interface ContextRetriever {
+  retrieve(queryText: string, options?: RetrievalOptions): Promise<RetrievalResult>;
+}
+
+export interface ReplyInput {
+  email: Email;
+  options?: Partial<DraftOptions>;
+  retrieval?: RetrievalOptions;
+  // Context retrieved earlier; skips the retrieval stage
+  context?: RetrievalResult;
+  // Earlier messages of the thread and from the sender, as prompt text
+  history?: { thread?: string; sender?: string };
+  // Replies already written for the same email, for alternatives that differ from them
+  alternatives?: string[];
+  // Rewrite this reply instead of writing a new one
+  revision?: { previous: string; instructions?: string };
+}
+
+export interface ReplyPrompt {
+  messages: ChatMessage[];
+  chatOptions: ChatOptions;
+}
+
+// What post-processors see besides the reply itself
+export interface ReplyCheckContext {
+  email: Email;
+  options: DraftOptions;
+  // Text the reply may legitimately quote from: the email, its history and the context
+  sources: string[];
+}
+
+/**
+ * Post-processing stage hook. May rewrite the reply (e.g. to redact it) and
+ * may raise warnings; processors run in order, each on the previous output.
+ */
+export interface ReplyPostProcessor {
+  readonly name: string;
+  process(reply: string, context: ReplyCheckContext): { reply?: string; warnings?: string[] };
+}
+
+export interface ReplyResult {
+  reply: string;
+  // Mean score of the cited chunks, 0 without any
+  confidence: number;
+  context: RetrievalResult;
+  prompt: ReplyPrompt;
+  warnings: ReplyWarning[];
+}
+
+export const DEFAULT_REPLY_OPTIONS: DraftOptions = {
+  tone: 'formal',
+  length: 'medium',
+  language: 'auto'
+};
+
+const TONE_GUIDES: Record<ReplyTone, string> = {
+  formal: 'Formal and professional: complete sentences, polite greeting and sign-off, no slang.',
+  casual: 'Casual and friendly: relaxed, conversational wording, as between colleagues who know each other.'
+};
+
+const LENGTH_GUIDES: Record<ReplyLength, string> = {
+  short: 'Short: two to four sentences, under 80 words.',
+  medium: 'Medium: one to three short paragraphs, around 150 words.',
+  long: 'Long: a thorough reply of around 300 words that addresses every point raised.'
+};
+
+const NO_CONTEXT_REPLY = 'No relevant context found. Please add product information and outreach agendas to the vector database.';
+
+function maxTokensFor(length: ReplyLength): number {
+  const { maxTokens } = config.llm.reply;
+  return length === 'short' ? Math.ceil(maxTokens / 2) : length === 'long' ? maxTokens * 2 : maxTokens;
+}
+
+function languageGuide(language: string): string {
+  return language === 'auto'
+    ? 'Write in the same language as the incoming email.'
+    : `Write in this language: ${language}.`;
+}
+
+export const placeholderCheck: ReplyPostProcessor = {
+  name: 'placeholders',
+  process: reply => ({
+    warnings: findPlaceholders(reply).map(placeholder => `Contains the placeholder ${placeholder}`)
+  })
+};
+
+export const piiCheck: ReplyPostProcessor = {
+  name: 'pii',
+  process: (reply, { sources }) => ({
+    warnings: findPiiLeaks(reply, sources).map(leak => `Mentions ${leak}, which isn't in the conversation or the knowledge base`)
+  })
+};
+
+export const lengthCheck: ReplyPostProcessor = {
+  name: 'length',
+  process: (reply, { options }) => {
+    const words = countWords(reply);
+    const limit = LENGTH_WORD_LIMITS[options.length];
+    return { warnings: words > limit ? [`${words} words is long for a ${options.length} reply (up to ${limit})`] : [] };
+  }
+};
+
+export const DEFAULT_POST_PROCESSORS: ReplyPostProcessor[] = [placeholderCheck, piiCheck, lengthCheck];
+
+/**
+ * The one way replies are written, for suggested replies and drafts alike:
+ * retrieve context, build the prompt, generate, then post-process. Each
+ * stage is a public method so it can be run (and tested) on its own;
+ * retrieval and post-processing are pluggable.
+ */
+export class ReplyPipeline {
+  private llm: LLMProvider;
+  private retriever: ContextRetriever;
+  private postProcessors: ReplyPostProcessor[];
+
+  constructor(llm: LLMProvider, retriever: ContextRetriever, postProcessors: ReplyPostProcessor[] = DEFAULT_POST_PROCESSORS) {
+    this.llm = llm;
+    this.retriever = retriever;
+    this.postProcessors = [...postProcessors];
+  }
+
+  addPostProcessor(processor: ReplyPostProcessor): void {
+    this.postProcessors.push(processor);
+  }
+
+  async run(input: ReplyInput): Promise<ReplyResult> {
+    const context = input.context || await this.retrieve(input.email, input.retrieval);
+    const prompt = this.buildPrompt(input, context.citations);
+    const generated = await this.generate(prompt);
+    const { reply, warnings } = this.postProcess(generated, input, context.citations);
+
+    return {
+      reply,
+      confidence: this.confidence(context),
+      context,
+      prompt,
+      warnings
+    };
+  }
+
+  /**
+   * Suggested reply for the suggest-reply endpoint. Without any relevant
+   * context it says so instead of asking the model.
+   */
+  async suggestReply(email: Email, retrieval: RetrievalOptions = {}, debug: boolean = false): Promise<SuggestedReply> {
+    try {
+      const context = await this.retrieve(email, retrieval);
+      const { retrieval: resolved, candidates, citations } = context;
+
+      if (citations.length === 0) {
+        return {
+          reply: NO_CONTEXT_REPLY,
+          confidence: 0,
+          context: [],
+          citations: [],
+          warnings: [],
+          ...(debug ? { debug: { retrieval: resolved, candidates } } : {})
+        };
+      }
+
+      const result = await this.run({ email, context });
+
+      return {
+        reply: result.reply,
+        confidence: result.confidence,
+        context: citations.map(citation => citation.text),
+        citations,
+        warnings: result.warnings,
+        ...(debug ? { debug: { retrieval: resolved, candidates, messages: result.prompt.messages } } : {})
+      };
+    } catch (error) {
+      console.error(' Error generating suggested reply:', error);
+      throw error;
+    }
+  }
+
+  // Stage 1: knowledge base context for the email
+  async retrieve(email: Email, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    return this.retriever.retrieve(`${email.subject} ${email.body}`, options);
+  }
+
+  // Stage 2: messages and model options; no I/O
+  buildPrompt(input: ReplyInput, citations: RetrievedContext[]): ReplyPrompt {
+    const options = this.resolveOptions(input.options);
+    const { email, history = {}, alternatives = [] } = input;
+
+    const sections = [
+      citations.length > 0
+        ? `Relevant context from our knowledge base:\n${citations.map((citation, i) => `${i + 1}. ${citation.text}`).join('\n\n')}`
+        : '',
+      history.thread
+        ? `Earlier messages in this conversation, oldest first ("Us" is our side):\n${history.thread}`
+        : '',
+      history.sender
+        ? `Earlier emails from this sender in other conversations, oldest first:\n${history.sender}`
+        : '',
+      `Incoming email to reply to:
+From: ${email.from}
+Subject: ${email.subject}
+Body: ${email.body}`,
+      alternatives.length > 0
+        ? `Alternative replies already written; take a clearly different approach from these:\n${alternatives.map((body, i) => `--- Alternative ${i + 1} ---\n${body}`).join('\n\n')}`
+        : ''
+    ].filter(Boolean);
+
+    const prompt = `
+${sections.join('\n\n')}
+
+Write a reply to the incoming email. The reply should:
+1. Follow on from the conversation so far without repeating what was already said
+2. Address the sender's questions and points
+3. Use information from the knowledge base context where it is relevant, including any meeting links or next steps
+4. Be ready to send (no placeholders like [Your Name])
+
+Tone: ${TONE_GUIDES[options.tone]}
+Length: ${LENGTH_GUIDES[options.length]}
+Language: ${languageGuide(options.language)}
+
+Generate only the email reply text, nothing else.
+`;
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a professional email assistant that uses company knowledge and the whole conversation to craft replies.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+
+    if (input.revision) {
+      const { previous, instructions } = input.revision;
+      messages.push(
+        { role: 'assistant', content: previous },
+        {
+          role: 'user',
+          content: `Rewrite the reply above.${instructions ? `\nInstructions: ${instructions}` : ''}
+Keep to the tone, length and language requirements given earlier. Return only the new reply text.`
+        }
+      );
+    }
+
+    return {
+      messages,
+      chatOptions: {
+        temperature: config.llm.reply.temperature,
+        maxTokens: maxTokensFor(options.length)
+      }
+    };
+  }
+
+  // Stage 3: the model call
+  async generate(prompt: ReplyPrompt): Promise<string> {
+    const content = await this.llm.chat(prompt.messages, prompt.chatOptions);
+    return content.trim() || 'Unable to generate reply';
+  }
+
+  // Stage 4: post-processors in order; also used to re-check hand-edited drafts
+  postProcess(reply: string, input: ReplyInput, citations: RetrievedContext[]): { reply: string; warnings: ReplyWarning[] } {
+    const checkContext: ReplyCheckContext = {
+      email: input.email,
+      options: this.resolveOptions(input.options),
+      sources: [
+        input.email.from,
+        ...(input.email.to || []),
+        ...(input.email.cc || []),
+        input.email.subject,
+        input.email.body,
+        input.history?.thread || '',
+        input.history?.sender || '',
+        ...citations.map(citation => citation.text)
+      ]
+    };
+
+    let current = reply;
+    const warnings: ReplyWarning[] = [];
+
+    for (const processor of this.postProcessors) {
+      const result = processor.process(current, checkContext);
+      if (result.reply !== undefined) current = result.reply;
+      warnings.push(...(result.warnings || []).map(message => ({ check: processor.name, message })));
+    }
+
+    return { reply: current, warnings };
+  }
+
+  private resolveOptions(options: Partial<DraftOptions> = {}): DraftOptions {
+    return {
+      tone: options.tone || DEFAULT_REPLY_OPTIONS.tone,
+      length: options.length || DEFAULT_REPLY_OPTIONS.length,
+      language: options.language || DEFAULT_REPLY_OPTIONS.language
+    };
+  }
+
+  private confidence({ citations }: RetrievalResult): number {
+    if (citations.length === 0) return 0;
+    const mean = citations.reduce((sum, citation) => sum + citation.score, 0) / citations.length;
+    return Math.round(Math.max(0, mean) * 100) / 100;
+  }
+}
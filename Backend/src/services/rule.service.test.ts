@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { Email, EmailCategory, RuleInput } from '../types';
+import { ElasticsearchService } from './elasticsearch.service';
+import { RuleService } from './rule.service';
+
+const email = (overrides: Partial<Email> = {}): Email => ({
+  id: 'e1',
+  accountId: 'a1',
+  messageId: '<m1@acme.com>',
+  from: 'Jane Doe <jane@mail.acme.com>',
+  to: ['sales@example.com'],
+  subject: 'Pricing question',
+  body: 'How much is the Pro plan?',
+  headers: {},
+  date: new Date('2026-01-05T12:00:00Z'),
+  folder: 'INBOX',
+  uid: 1,
+  isRead: false,
+  attachments: [],
+  timestamp: new Date('2026-01-05T12:00:00Z'),
+  ...overrides
+});
+
+const rule = (overrides: Partial<RuleInput>): RuleInput => ({
+  name: 'Test rule',
+  enabled: true,
+  priority: 5,
+  match: 'all',
+  conditions: {},
+  action: { category: EmailCategory.INTERESTED },
+  explanation: 'Test',
+  ...overrides
+});
+
+describe('RuleService', () => {
+  const originalDataDir = config.storage.dataDir;
+  let dataDir: string;
+  let recent: Email[];
+  let service: RuleService;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rules-'));
+    config.storage.dataDir = dataDir;
+    recent = [];
+    service = new RuleService({ getRecentEmails: async () => recent } as unknown as ElasticsearchService);
+  });
+
+  afterEach(async () => {
+    config.storage.dataDir = originalDataDir;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('settles auto-replies, calendar invites and bulk mail with the default rules', async () => {
+    const autoReply = await service.evaluate(email({ headers: { 'auto-submitted': 'auto-replied' } }));
+    const invite = await service.evaluate(email({ attachments: [{ filename: 'invite.ics', contentType: 'application/octet-stream', size: 10 }] }));
+    const bulk = await service.evaluate(email({ headers: { precedence: 'bulk' } }));
+
+    expect(autoReply).toMatchObject({ category: EmailCategory.OUT_OF_OFFICE, skipAI: true });
+    expect(invite).toMatchObject({ category: EmailCategory.MEETING_BOOKED, skipAI: true });
+    expect(bulk?.rule.id).toBe('bulk-mail');
+    expect(await service.evaluate(email({ headers: { 'auto-submitted': 'no' } }))).toBeNull();
+  });
+
+  it('returns the first enabled matching rule by priority', async () => {
+    await service.createRule(rule({ name: 'Later', priority: 50, conditions: { subject: 'pricing' } }));
+    await service.createRule(rule({ name: 'Disabled', priority: 1, enabled: false, conditions: { subject: 'pricing' } }));
+    await service.createRule(rule({ name: 'First', priority: 2, conditions: { body: 'pro plan' }, action: { category: EmailCategory.NOT_INTERESTED } }));
+
+    const match = await service.evaluate(email());
+
+    expect(match?.rule.name).toBe('First');
+    expect(match?.category).toBe(EmailCategory.NOT_INTERESTED);
+  });
+
+  it('requires every condition with match all and one with match any', async () => {
+    const conditions = { senderDomains: ['acme.com'], subject: '^invoice' };
+    await service.createRule(rule({ name: 'All', priority: 1, conditions }));
+    await service.createRule(rule({ name: 'Any', priority: 2, match: 'any', conditions }));
+
+    expect((await service.evaluate(email({ subject: 'Invoice 42' })))?.rule.name).toBe('All');
+    // The subdomain matches acme.com, the subject doesn't
+    expect((await service.evaluate(email()))?.rule.name).toBe('Any');
+    expect(await service.evaluate(email({ from: 'jane@notacme.com' }))).toBeNull();
+  });
+
+  it('leaves the category to the AI when a rule sets neither a category nor skipAI', async () => {
+    await service.createRule(rule({ conditions: { subject: 'pricing' }, action: {} }));
+
+    expect(await service.evaluate(email())).toMatchObject({ category: EmailCategory.UNCATEGORIZED, skipAI: false });
+  });
+
+  it('dry-runs an unsaved rule against recent emails', async () => {
+    recent = [email(), email({ id: 'e2', subject: 'Hello', category: EmailCategory.SPAM })];
+
+    const result = await service.dryRun(rule({ conditions: { subject: 'hello' } }));
+
+    expect(result.scanned).toBe(2);
+    expect(result.matched).toMatchObject([{ id: 'e2', currentCategory: EmailCategory.SPAM, category: EmailCategory.INTERESTED }]);
+    expect(await service.listRules()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStore } from '../utils/jsonStore';
+import { matchesSenderDomain } from '../utils/threading';
+import {
+  ClassificationRule,
+  Email,
+  EmailCategory,
+  RuleConditions,
+  RuleDryRunResult,
+  RuleInput,
+  RuleMatch
+} from '../types';
+import { ElasticsearchService } from './elasticsearch.service';
+
+interface RuleStore {
+  rules: ClassificationRule[];
+}
+
+const SEEDED_AT = new Date(0).toISOString();
+
+// Installed on first start; users can edit or delete them like any other rule
+const DEFAULT_RULES: ClassificationRule[] = [
+  {
+    id: 'auto-reply',
+    name: 'Auto-replies',
+    enabled: true,
+    priority: 10,
+    match: 'any',
+    conditions: {
+      headers: { 'auto-submitted': '^auto-', 'x-autoreply': '', 'x-autorespond': '' }
+    },
+    action: { category: EmailCategory.OUT_OF_OFFICE },
+    explanation: 'Automatic reply headers (Auto-Submitted, X-Autoreply or X-Autorespond)',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  },
+  {
+    id: 'calendar-invite',
+    name: 'Calendar invites',
+    enabled: true,
+    priority: 20,
+    match: 'any',
+    conditions: {
+      attachmentTypes: ['text/calendar', 'application/ics', '.ics']
+    },
+    action: { category: EmailCategory.MEETING_BOOKED },
+    explanation: 'Contains a calendar invitation',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  },
+  {
+    id: 'bulk-mail',
+    name: 'Bulk mail',
+    enabled: true,
+    priority: 30,
+    match: 'any',
+    conditions: {
+      headers: { 'list-unsubscribe': '', precedence: '^(bulk|list|junk)$' }
+    },
+    action: { category: EmailCategory.SPAM },
+    explanation: 'Mailing list or bulk mail (List-Unsubscribe or Precedence: bulk)',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  }
+];
+
+const DRY_RUN_DEFAULT_LIMIT = 500;
+
+export class RuleService {
+  private store = new JsonStore<RuleStore>('rules.json', { rules: DEFAULT_RULES });
+  private elasticsearchService: ElasticsearchService;
+
+  constructor(elasticsearchService: ElasticsearchService) {
+    this.elasticsearchService = elasticsearchService;
+  }
+
+  async listRules(): Promise<ClassificationRule[]> {
+    const { rules } = await this.store.get();
+    return [...rules].sort((a, b) => a.priority - b.priority);
+  }
+
+  async getRule(id: string): Promise<ClassificationRule | undefined> {
+    const { rules } = await this.store.get();
+    return rules.find(rule => rule.id === id);
+  }
+
+  async createRule(input: RuleInput): Promise<ClassificationRule> {
+    const now = new Date().toISOString();
+    const rule: ClassificationRule = { ...input, id: uuidv4(), createdAt: now, updatedAt: now };
+
+    await this.store.update(data => {
+      data.rules.push(rule);
+    });
+
+    console.log(` Created rule ${rule.name}`);
+    return rule;
+  }
+
+  async updateRule(id: string, changes: Partial<RuleInput>): Promise<ClassificationRule | undefined> {
+    const current = await this.getRule(id);
+    if (!current) return undefined;
+
+    const updated: ClassificationRule = {
+      ...current,
+      ...changes,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.store.update(data => {
+      const index = data.rules.findIndex(rule => rule.id === id);
+      data.rules[index] = updated;
+    });
+
+    return updated;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const { rules } = await this.store.get();
+    if (!rules.some(rule => rule.id === id)) return false;
+
+    await this.store.update(data => {
+      data.rules = data.rules.filter(rule => rule.id !== id);
+    });
+    console.log(` Deleted rule ${id}`);
+    return true;
+  }
+
+  async listRulesForCategory(category: string): Promise<ClassificationRule[]> {
+    const rules = await this.listRules();
+    return rules.filter(rule => rule.action.category === category);
+  }
+
+  // Keeps rule actions pointing at a category after it's renamed
+  async renameCategory(from: string, to: string): Promise<void> {
+    const affected = await this.listRulesForCategory(from);
+    if (affected.length === 0) return;
+
+    const now = new Date().toISOString();
+    await this.store.update(data => {
+      for (const rule of data.rules) {
+        if (rule.action.category === from) {
+          rule.action = { ...rule.action, category: to };
+          rule.updatedAt = now;
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns the first enabled rule (by priority) matching the email.
+   */
+  async evaluate(email: Email): Promise<RuleMatch | null> {
+    const rules = await this.listRules();
+
+    for (const rule of rules) {
+      if (rule.enabled && this.matches(rule, email)) {
+        return this.toMatch(rule);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Shows which recently indexed emails a rule would match, without
+   * changing anything. The rule doesn't have to be saved or enabled.
+   */
+  async dryRun(rule: Pick<ClassificationRule, 'match' | 'conditions' | 'action'>, accountId?: string, limit = DRY_RUN_DEFAULT_LIMIT): Promise<RuleDryRunResult> {
+    const emails = await this.elasticsearchService.getRecentEmails(limit, accountId);
+    const category = rule.action.category || EmailCategory.UNCATEGORIZED;
+
+    return {
+      scanned: emails.length,
+      matched: emails
+        .filter(email => this.matches(rule, email))
+        .map(email => ({
+          id: email.id,
+          subject: email.subject,
+          from: email.from,
+          date: email.date,
+          currentCategory: email.category,
+          category
+        }))
+    };
+  }
+
+  private toMatch(rule: ClassificationRule): RuleMatch {
+    return {
+      rule,
+      category: rule.action.category || EmailCategory.UNCATEGORIZED,
+      skipAI: Boolean(rule.action.category || rule.action.skipAI)
+    };
+  }
+
+  private matches(rule: Pick<ClassificationRule, 'match' | 'conditions'>, email: Email): boolean {
+    const checks = this.conditionChecks(rule.conditions, email);
+    if (checks.length === 0) return false;
+
+    return rule.match === 'any' ? checks.some(Boolean) : checks.every(Boolean);
+  }
+
+  // One result per configured condition; header patterns count individually
+  private conditionChecks(conditions: RuleConditions, email: Email): boolean[] {
+    const checks: boolean[] = [];
+
+    for (const [name, pattern] of Object.entries(conditions.headers || {})) {
+      const value = email.headers?.[name.toLowerCase()];
+      checks.push(value !== undefined && (!pattern || new RegExp(pattern, 'i').test(value)));
+    }
+
+    if (conditions.senderDomains && conditions.senderDomains.length > 0) {
+      checks.push(matchesSenderDomain(email.from, conditions.senderDomains));
+    }
+
+    if (conditions.subject) {
+      checks.push(new RegExp(conditions.subject, 'i').test(email.subject || ''));
+    }
+
+    if (conditions.body) {
+      checks.push(new RegExp(conditions.body, 'i').test(email.body || ''));
+    }
+
+    if (conditions.attachmentTypes && conditions.attachmentTypes.length > 0) {
+      const types = conditions.attachmentTypes.map(type => type.toLowerCase());
+      checks.push((email.attachments || []).some(attachment => types.some(type =>
+        type.startsWith('.')
+          ? attachment.filename.toLowerCase().endsWith(type)
+          : (attachment.contentType || '').toLowerCase().startsWith(type)
+      )));
+    }
+
+    return checks;
+  }
+}
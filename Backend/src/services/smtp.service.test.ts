@@ -0,0 +1,105 @@
+import { AddressInfo } from 'net';
+import { simpleParser, ParsedMail } from 'mailparser';
+import { SMTPServer } from 'smtp-server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Email, EmailAccount } from '../types';
+import { OAuthService } from './oauth.service';
+import { SmtpService } from './smtp.service';
+
+interface Received {
+  from: string;
+  recipients: string[];
+  message: ParsedMail;
+}
+
+const ORIGINAL: Email = {
+  id: 'e1',
+  accountId: 'a1',
+  messageId: '<m2@acme.com>',
+  from: 'Jane Doe <jane@acme.com>',
+  to: ['alice@example.com', 'notalice@example.com'],
+  cc: ['Bob <bob@acme.com>'],
+  subject: 'Pricing question',
+  body: 'How much is the Pro plan?',
+  date: new Date('2026-01-05T12:00:00Z'),
+  folder: 'INBOX',
+  uid: 7,
+  references: ['<m1@acme.com>'],
+  isRead: false,
+  attachments: [],
+  timestamp: new Date('2026-01-05T12:00:00Z')
+};
+
+// A local SMTP stand-in that keeps what it receives
+describe('SmtpService', () => {
+  let server: SMTPServer;
+  let received: Received[] = [];
+  let service: SmtpService;
+
+  beforeAll(async () => {
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      onAuth: (auth, session, callback) => callback(null, { user: auth.username }),
+      onData: (stream, session, callback) => {
+        simpleParser(stream).then(message => {
+          received.push({
+            from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+            recipients: session.envelope.rcptTo.map(recipient => recipient.address),
+            message
+          });
+          callback();
+        }, callback);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const account: EmailAccount = {
+      id: 'a1',
+      user: 'alice@example.com',
+      password: 'secret',
+      host: '127.0.0.1',
+      port: 993,
+      name: 'Alice',
+      connection: { security: 'none' },
+      smtp: { host: '127.0.0.1', port: (server.server.address() as AddressInfo).port, secure: false, saveToSent: false }
+    };
+    service = new SmtpService(account, {} as OAuthService);
+  });
+
+  afterAll(async () => {
+    service.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('replies to the sender with threading headers', async () => {
+    const sent = await service.sendReply(ORIGINAL, { text: 'Thanks, it is 49 dollars.' });
+
+    expect(received).toHaveLength(1);
+    const [{ from, recipients, message }] = received;
+    expect(from).toBe('alice@example.com');
+    expect(recipients).toEqual(['jane@acme.com']);
+    expect(message.subject).toBe('Re: Pricing question');
+    expect(message.messageId).toBe(sent.messageId);
+    expect(message.inReplyTo).toBe('<m2@acme.com>');
+    expect(message.references).toEqual(['<m1@acme.com>', '<m2@acme.com>']);
+    expect(message.text?.trim()).toBe('Thanks, it is 49 dollars.');
+  });
+
+  it('copies the other recipients on reply-all, leaving out only the account itself', async () => {
+    await service.sendReply(ORIGINAL, { text: 'Hi all', replyAll: true, cc: ['carol@example.com'] });
+
+    expect(received[0].recipients).toEqual(['jane@acme.com', 'notalice@example.com', 'bob@acme.com', 'carol@example.com']);
+  });
+
+  it('replies to Reply-To instead of From when the original has one', async () => {
+    await service.sendReply({ ...ORIGINAL, replyTo: ['support@acme.com'] }, { text: 'Hello' });
+
+    expect(received[0].recipients).toEqual(['support@acme.com']);
+    expect(received[0].message.to).toMatchObject({ text: 'support@acme.com' });
+  });
+});
@@ -0,0 +1,162 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+import { v4 as uuidv4 } from 'uuid';
+import { ConnectionSettings, EmailAccount, Email, ReplyRequest, OutgoingMessage, SecurityMode, SmtpSettings } from '../types';
+import { OAuthService } from './oauth.service';
+import { buildTlsOptions } from '../utils/tls';
+import { extractAddresses } from '../utils/threading';
+
+/**
+ * SMTP transport security. Without an explicit smtp.security, `secure`
+ * means implicit TLS; otherwise STARTTLS is required unless the account's
+ * IMAP connection is plaintext too (local test servers).
+ */
+function smtpSecurity(settings: SmtpSettings, connection: ConnectionSettings): SecurityMode {
+  if (settings.security) return settings.security;
+  if (settings.secure) return 'tls';
+  return connection.security === 'none' ? 'none' : 'starttls';
+}
+
+export class SmtpService {
+  private transporter: Transporter;
+  private account: EmailAccount;
+  private settings: SmtpSettings;
+
+  constructor(account: EmailAccount, oauthService: OAuthService) {
+    if (!account.smtp) {
+      throw new Error(`SMTP is not configured for ${account.user}`);
+    }
+
+    this.account = account;
+    this.settings = account.smtp;
+
+    const isOAuth = account.authType === 'oauth2';
+    const connection = account.connection || {};
+    const security = smtpSecurity(this.settings, connection);
+
+    const options: SMTPTransport.Options = {
+      host: this.settings.host,
+      port: this.settings.port,
+      secure: security === 'tls',
+      requireTLS: security === 'starttls',
+      ignoreTLS: security === 'none',
+      tls: buildTlsOptions(connection),
+      connectionTimeout: connection.connectionTimeoutMs,
+      greetingTimeout: connection.greetingTimeoutMs,
+      socketTimeout: connection.socketTimeoutMs,
+      // nodemailer asks for a token when its copy expires and again with renew=true if XOAUTH2 is rejected
+      auth: isOAuth
+        ? {
+          type: 'OAuth2',
+          user: account.user,
+          provisionCallback: (user, renew, callback) => {
+            oauthService.getAccessToken(account, renew).then(
+              accessToken => callback(null, accessToken, new Date(account.oauth2?.expiresAt || 0).getTime()),
+              error => callback(error, '', 0)
+            );
+          }
+        }
+        : { user: account.user, pass: account.password }
+    };
+
+    this.transporter = nodemailer.createTransport(options);
+
+    if (connection.proxy) {
+      this.transporter.setupProxy(connection.proxy);
+    }
+  }
+
+  get saveToSent(): boolean {
+    return this.settings.saveToSent;
+  }
+
+  async verify(): Promise<void> {
+    await this.transporter.verify();
+    console.log(` SMTP ready: ${this.account.user}`);
+  }
+
+  async sendReply(original: Email, request: ReplyRequest): Promise<OutgoingMessage> {
+    const message = await this.buildReply(original, request);
+
+    await this.transporter.sendMail({
+      envelope: {
+        from: message.from,
+        to: [...message.to, ...message.cc]
+      },
+      raw: message.raw
+    });
+
+    console.log(` Reply sent from ${this.account.user}: ${message.subject}`);
+    return message;
+  }
+
+  // A new message from this account, e.g. a notification digest
+  async sendMessage(message: { to: string[]; subject: string; text: string; html?: string }): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.account.user,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+
+    console.log(` Message sent from ${this.account.user}: ${message.subject}`);
+  }
+
+  private async buildReply(original: Email, request: ReplyRequest): Promise<OutgoingMessage> {
+    const self = this.account.user.toLowerCase();
+
+    // Replies go to Reply-To when the sender set one
+    const to = original.replyTo?.length ? [...original.replyTo] : [original.from].filter(Boolean);
+    const excluded = new Set([self, ...extractAddresses(to)]);
+    const cc = request.replyAll
+      ? [...original.to, ...(original.cc || [])].filter(entry => !extractAddresses([entry]).some(address => excluded.has(address)))
+      : [];
+    if (request.cc) {
+      cc.push(...request.cc);
+    }
+
+    const subject = /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`;
+    const domain = self.split('@')[1] || 'localhost';
+    const messageId = `<${uuidv4()}@${domain}>`;
+    const date = new Date();
+
+    // Carry the whole chain so other clients thread the reply under the same root
+    const references = [...(original.references || [])];
+    if (original.messageId && !references.includes(original.messageId)) {
+      references.push(original.messageId);
+    }
+
+    const raw = await new MailComposer({
+      from: this.account.user,
+      to,
+      cc,
+      subject,
+      text: request.text,
+      html: request.html,
+      messageId,
+      date,
+      inReplyTo: original.messageId || undefined,
+      references
+    }).compile().build();
+
+    return {
+      messageId,
+      from: this.account.user,
+      to,
+      cc,
+      subject,
+      text: request.text,
+      html: request.html,
+      inReplyTo: original.messageId || undefined,
+      references,
+      date,
+      raw
+    };
+  }
+
+  close(): void {
+    this.transporter.close();
+  }
+}
@@ -0,0 +1,31 @@
+import { JsonStore } from '../utils/jsonStore';
+import { FolderSyncState } from '../types';
+
+export class SyncStateService {
+  private store = new JsonStore<Record<string, FolderSyncState>>('sync-state.json', {});
+
+  async get(accountId: string, folder: string): Promise<FolderSyncState | undefined> {
+    const states = await this.store.get();
+    return states[this.key(accountId, folder)];
+  }
+
+  async save(state: FolderSyncState): Promise<void> {
+    await this.store.update(states => {
+      states[this.key(state.accountId, state.folder)] = state;
+    });
+  }
+
+  async clear(accountId: string): Promise<void> {
+    await this.store.update(states => {
+      for (const key of Object.keys(states)) {
+        if (states[key].accountId === accountId) {
+          delete states[key];
+        }
+      }
+    });
+  }
+
+  private key(accountId: string, folder: string): string {
+    return `${accountId}:${folder}`;
+  }
+}
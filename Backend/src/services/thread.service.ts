@@ -0,0 +1,185 @@
+import { Email, EmailThread, ThreadQuery, ThreadSearchResult, ThreadSummary } from '../types';
+import { ElasticsearchService } from './elasticsearch.service';
+import { AccountService } from './account.service';
+import {
+  createThreadId,
+  extractAddresses,
+  isReplySubject,
+  normalizeSubject
+} from '../utils/threading';
+
+// How far back a header-less reply is matched to a thread by subject
+const SUBJECT_FALLBACK_DAYS = 30;
+
+export class ThreadService {
+  private elasticsearchService: ElasticsearchService;
+  private accountService: AccountService;
+
+  constructor(elasticsearchService: ElasticsearchService, accountService: AccountService) {
+    this.elasticsearchService = elasticsearchService;
+    this.accountService = accountService;
+  }
+
+  /**
+   * Sets threadId on each email before indexing. In order of preference:
+   * the thread of an indexed (or same-batch) ancestor from In-Reply-To or
+   * References, the thread of an indexed reply to this message, the root of
+   * the References chain, and for replies without headers a recent message
+   * with the same normalized subject and a shared participant.
+   */
+  async assignThreads(emails: Email[]): Promise<void> {
+    const ordered = [...emails].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const ancestorIds = new Set<string>();
+    const ownIds = new Set<string>();
+    for (const email of ordered) {
+      this.ancestorsOf(email).forEach(id => ancestorIds.add(id));
+      if (email.messageId) ownIds.add(email.messageId);
+    }
+
+    const [byMessageId, byReference] = await Promise.all([
+      this.elasticsearchService.findThreadIdsByMessageIds([...ancestorIds]),
+      this.elasticsearchService.findThreadIdsByReferences([...ownIds])
+    ]);
+    const batchSubjects = new Map<string, Email[]>();
+
+    for (const email of ordered) {
+      email.normalizedSubject = normalizeSubject(email.subject);
+
+      if (!email.threadId) {
+        email.threadId = await this.resolveThreadId(email, byMessageId, byReference, batchSubjects);
+      }
+
+      if (email.messageId) {
+        byMessageId.set(email.messageId, email.threadId);
+      }
+      const sameSubject = batchSubjects.get(email.normalizedSubject) || [];
+      sameSubject.push(email);
+      batchSubjects.set(email.normalizedSubject, sameSubject);
+    }
+  }
+
+  private async resolveThreadId(
+    email: Email,
+    byMessageId: Map<string, string>,
+    byReference: Map<string, string>,
+    batchSubjects: Map<string, Email[]>
+  ): Promise<string> {
+    const ancestors = this.ancestorsOf(email);
+
+    for (const ancestor of ancestors) {
+      const threadId = byMessageId.get(ancestor);
+      if (threadId) return threadId;
+    }
+
+    if (email.messageId && byReference.has(email.messageId)) {
+      return byReference.get(email.messageId)!;
+    }
+
+    if (ancestors.length > 0) {
+      // References lists the root first; In-Reply-To alone is the best we have otherwise
+      return createThreadId(email.references?.[0] || email.inReplyTo!);
+    }
+
+    if (isReplySubject(email.subject) && email.normalizedSubject) {
+      const match = await this.findBySubject(email, batchSubjects.get(email.normalizedSubject) || []);
+      if (match?.threadId) return match.threadId;
+    }
+
+    return createThreadId(email.messageId || email.id);
+  }
+
+  private async findBySubject(email: Email, batchCandidates: Email[]): Promise<Email | undefined> {
+    const since = new Date(email.date);
+    since.setDate(since.getDate() - SUBJECT_FALLBACK_DAYS);
+
+    const indexed = await this.elasticsearchService.findRecentEmailsBySubject(email.normalizedSubject!, since);
+    const participants = new Set(this.participantsOf(email));
+
+    return [...batchCandidates].reverse().concat(indexed).find(candidate =>
+      candidate.id !== email.id
+      && new Date(candidate.date) <= new Date(email.date)
+      && this.participantsOf(candidate).some(address => participants.has(address))
+    );
+  }
+
+  // Nearest ancestor first
+  private ancestorsOf(email: Email): string[] {
+    const ids = [email.inReplyTo, ...[...(email.references || [])].reverse()];
+    return ids.filter((id, index): id is string => Boolean(id) && ids.indexOf(id) === index);
+  }
+
+  private participantsOf(email: Email): string[] {
+    return extractAddresses([email.from, ...email.to, ...(email.cc || [])]);
+  }
+
+  async listThreads(query: ThreadQuery): Promise<ThreadSearchResult> {
+    const page = query.page || 1;
+    const size = query.size || 20;
+    const { threadIds, total } = await this.elasticsearchService.searchThreadIds({ ...query, page, size });
+
+    const emails = await this.elasticsearchService.getThreadEmails(threadIds);
+    const ownAddresses = await this.ownAddresses();
+
+    const threads = threadIds
+      .map(threadId => emails.filter(email => email.threadId === threadId))
+      .filter(messages => messages.length > 0)
+      .map(messages => this.summarize(messages, ownAddresses));
+
+    return { threads, total, page, size };
+  }
+
+  async getThread(threadId: string): Promise<EmailThread | null> {
+    const emails = await this.elasticsearchService.getThreadEmails([threadId], true);
+    if (emails.length === 0) return null;
+
+    return {
+      ...this.summarize(emails, await this.ownAddresses()),
+      emails
+    };
+  }
+
+  /**
+   * Assigns threads to emails indexed before threading existed. Their reply
+   * headers weren't stored, so only the subject fallback can group them.
+   */
+  async backfillThreads(): Promise<number> {
+    let updated = 0;
+
+    for await (const emails of this.elasticsearchService.scanEmailsWithoutThread()) {
+      await this.assignThreads(emails);
+      await this.elasticsearchService.bulkIndexEmails(emails);
+      updated += emails.length;
+    }
+
+    return updated;
+  }
+
+  // Messages must be in chronological order
+  private summarize(emails: Email[], ownAddresses: Set<string>): ThreadSummary {
+    const first = emails[0];
+    const latest = emails[emails.length - 1];
+    const latestInbound = [...emails].reverse().find(email =>
+      !extractAddresses([email.from]).some(address => ownAddresses.has(address))
+    );
+
+    return {
+      threadId: latest.threadId!,
+      subject: first.subject,
+      participants: [...new Set(emails.flatMap(email => this.participantsOf(email)))],
+      accountIds: [...new Set(emails.map(email => email.accountId))],
+      folders: [...new Set(emails.map(email => email.folder))],
+      messageCount: emails.length,
+      unreadCount: emails.filter(email => !email.isRead).length,
+      category: latestInbound?.category,
+      firstMessageAt: first.date,
+      lastMessageAt: latest.date,
+      latestEmailId: latest.id
+    };
+  }
+
+  private async ownAddresses(): Promise<Set<string>> {
+    const accounts = await this.accountService.listAccounts();
+    return new Set(accounts.map(account => account.user.toLowerCase()));
+  }
+}
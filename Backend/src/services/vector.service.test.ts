@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, KnowledgeChunk, KnowledgeDocument } from '../types';
+import { KnowledgeService, KnowledgeTextMatch } from './knowledge.service';
+import { LLMProvider } from './llm.service';
+import { VectorService } from './vector.service';
+import { VectorMatch, VectorQuery, VectorRecord, VectorStore } from './vectorStore.service';
+
+class StubLLM implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly chatModel = 'stub';
+  readonly embeddingDimension = 3;
+
+  constructor(private embedError?: Error) {}
+
+  async chat(_messages: ChatMessage[]): Promise<string> {
+    return '';
+  }
+
+  async embed(): Promise<number[]> {
+    if (this.embedError) throw this.embedError;
+    return [1, 0, 0];
+  }
+}
+
+class StubStore implements VectorStore {
+  readonly name = 'stub';
+  queries: VectorQuery[] = [];
+
+  constructor(private matches: VectorMatch[]) {}
+
+  async initialize(): Promise<void> {}
+
+  async upsert(_records: VectorRecord[]): Promise<void> {}
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    this.queries.push(query);
+    return this.matches.slice(0, query.topK);
+  }
+
+  async delete(_ids: string[]): Promise<void> {}
+}
+
+const match = (id: string, score: number): VectorMatch => ({
+  id,
+  score,
+  metadata: { text: `text of ${id}`, documentId: id.split('#')[0], title: id, type: 'product_context' }
+});
+
+function keywordMatch(id: string, score: number): KnowledgeTextMatch {
+  const chunk: KnowledgeChunk = { id, index: 0, text: `text of ${id}` };
+  return { document: { id: id.split('#')[0], title: id, type: 'product_context' } as KnowledgeDocument, chunk, score };
+}
+
+const knowledge = (matches: KnowledgeTextMatch[] = []) =>
+  ({ searchText: async () => matches }) as unknown as KnowledgeService;
+
+describe('VectorService', () => {
+  it('cites the vector matches above minScore, up to topK', async () => {
+    const store = new StubStore([match('a#v1#0', 0.9), match('b#v1#0', 0.75), match('c#v1#0', 0.5)]);
+    const service = new VectorService(new StubLLM(), store, knowledge());
+
+    const result = await service.retrieve('pricing', { topK: 3, types: ['product_context'] });
+
+    expect(store.queries[0]).toMatchObject({ topK: 3, filter: { type: ['product_context'] } });
+    expect(result.retrieval).toMatchObject({ mode: 'vector', minScore: 0.7 });
+    expect(result.candidates).toHaveLength(3);
+    expect(result.citations.map(citation => citation.chunkId)).toEqual(['a#v1#0', 'b#v1#0']);
+  });
+
+  it('blends keyword scores in hybrid mode against its own minScore default', async () => {
+    const store = new StubStore([match('a#v1#0', 0.6), match('b#v1#0', 0.1)]);
+    const service = new VectorService(new StubLLM(), store, knowledge([keywordMatch('c#v1#0', 8), keywordMatch('b#v1#0', 4)]));
+
+    const result = await service.retrieve('pricing', { mode: 'hybrid', topK: 3 });
+
+    expect(store.queries[0].topK).toBe(20);
+    expect(result.retrieval.minScore).toBe(0.4);
+    expect(result.candidates.map(candidate => [candidate.chunkId, candidate.score.toFixed(2)])).toEqual([
+      ['a#v1#0', '0.42'],
+      ['c#v1#0', '0.30'],
+      ['b#v1#0', '0.22']
+    ]);
+    expect(result.citations.map(citation => citation.chunkId)).toEqual(['a#v1#0']);
+  });
+
+  it('fails instead of returning no context when the embedding call fails', async () => {
+    const service = new VectorService(new StubLLM(new Error('Invalid API key')), new StubStore([]), knowledge());
+
+    await expect(service.retrieve('pricing')).rejects.toThrow('Invalid API key');
+  });
+});
@@ -1,194 +1,138 @@
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
 import { config } from '../config';
-import { Email, SuggestedReply } from '../types';
-
-export class VectorService {
-  private pinecone: Pinecone;
-  private openai: OpenAI;
-  private indexName: string;
-
-  constructor() {
-    this.pinecone = new Pinecone({
-      apiKey: config.pinecone.apiKey
-    });
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey
-    });
-    this.indexName = config.pinecone.indexName;
+import { ResolvedRetrieval, RetrievalOptions, RetrievalResult, RetrievedContext } from '../types';
+import { LLMProvider } from './llm.service';
+import { VectorStore } from './vectorStore.service';
+import { ContextRetriever } from './replyPipeline.service';
+import { KnowledgeService, KnowledgeTextMatch } from './knowledge.service';
+
+// Candidates per requested chunk in hybrid mode, and the minimum pool size
+const HYBRID_POOL_FACTOR = 4;
+const MIN_HYBRID_POOL = 20;
+
+/**
+ * Retrieval stage of the reply pipeline: vector search over the knowledge
+ * base, optionally combined with BM25 keyword scores.
+ */
+export class VectorService implements ContextRetriever {
+  private store: VectorStore;
+  private llm: LLMProvider;
+  private knowledgeService: KnowledgeService;
+
+  constructor(llm: LLMProvider, store: VectorStore, knowledgeService: KnowledgeService) {
+    this.store = store;
+    this.llm = llm;
+    this.knowledgeService = knowledgeService;
   }
 
   async initialize(): Promise<void> {
     try {
-      const indexes = await this.pinecone.listIndexes();
-      const indexExists = indexes.indexes?.some(idx => idx.name === this.indexName);
-
-      if (!indexExists) {
-        console.log(`Creating Pinecone index: ${this.indexName}`);
-        await this.pinecone.createIndex({
-          name: this.indexName,
-          dimension: 1536, // OpenAI embedding dimension
-          metric: 'cosine',
-          spec: {
-            serverless: {
-              cloud: 'aws',
-              region: 'us-east-1'
-            }
-          }
-        });
-        console.log(` Pinecone index created: ${this.indexName}`);
-      } else {
-        console.log(` Pinecone index exists: ${this.indexName}`);
-      }
+      await this.store.initialize();
     } catch (error) {
-      console.error(' Error initializing Pinecone:', error);
+      console.error(` Error initializing ${this.store.name} vector store:`, error);
     }
   }
 
-  async storeProductContext(contextId: string, text: string, metadata: any = {}): Promise<void> {
-    try {
-      const embedding = await this.createEmbedding(text);
-      const index = this.pinecone.Index(this.indexName);
-
-      await index.upsert([
-        {
-          id: contextId,
-          values: embedding,
-          metadata: {
-            text,
-            type: 'product_context',
-            ...metadata
-          }
-        }
-      ]);
-
-      console.log(`Stored product context: ${contextId}`);
-    } catch (error) {
-      console.error(' Error storing product context:', error);
-      throw error;
-    }
+  /**
+   * Knowledge base chunks relevant to the query: every scored candidate and
+   * the citations selected from them by topK and minScore.
+   */
+  async retrieve(queryText: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const retrieval = this.resolveRetrieval(options);
+    const candidates = await this.scoreCandidates(queryText, retrieval);
+    return { retrieval, candidates, citations: this.selectContext(candidates, retrieval) };
   }
 
-  async storeOutreachAgenda(agendaId: string, text: string, metadata: any = {}): Promise<void> {
-    try {
-      const embedding = await this.createEmbedding(text);
-      const index = this.pinecone.Index(this.indexName);
-
-      await index.upsert([
-        {
-          id: agendaId,
-          values: embedding,
-          metadata: {
-            text,
-            type: 'outreach_agenda',
-            ...metadata
-          }
-        }
-      ]);
-
-      console.log(` Stored outreach agenda: ${agendaId}`);
-    } catch (error) {
-      console.error(' Error storing outreach agenda:', error);
-      throw error;
-    }
+  // Blended hybrid scores run lower than cosine similarity, so hybrid mode has its own default threshold
+  private resolveRetrieval(options: RetrievalOptions): ResolvedRetrieval {
+    const mode = options.mode || config.rag.mode;
+    return {
+      mode,
+      topK: Math.min(options.topK ?? config.rag.topK, config.rag.maxTopK),
+      minScore: options.minScore ?? (mode === 'hybrid' ? config.rag.hybridMinScore : config.rag.minScore),
+      ...(options.types?.length ? { types: options.types } : {})
+    };
   }
 
-  async queryRelevantContext(queryText: string, topK: number = 3): Promise<string[]> {
+  private selectContext(candidates: RetrievedContext[], { topK, minScore }: ResolvedRetrieval): RetrievedContext[] {
+    return candidates
+      .filter(candidate => candidate.score >= minScore)
+      .slice(0, topK);
+  }
+
+  // Every chunk considered, best first. Errors are thrown: a reply written without its context would pass for a normal one
+  private async scoreCandidates(queryText: string, { mode, topK, types }: ResolvedRetrieval): Promise<RetrievedContext[]> {
     try {
+      // Hybrid scoring looks at a wider pool so keyword matches can overtake weaker vector matches
+      const poolSize = mode === 'hybrid' ? Math.max(topK * HYBRID_POOL_FACTOR, MIN_HYBRID_POOL) : topK;
       const embedding = await this.createEmbedding(queryText);
-      const index = this.pinecone.Index(this.indexName);
 
-      const queryResponse = await index.query({
+      const matches = await this.store.query({
         vector: embedding,
-        topK,
-        includeMetadata: true
+        topK: poolSize,
+        filter: types ? { type: types } : undefined
       });
 
-      const contexts = queryResponse.matches
-        .filter(match => match.score && match.score > 0.7)
-        .map(match => match.metadata?.text as string)
-        .filter(Boolean);
-
-      return contexts;
+      const candidates: RetrievedContext[] = matches
+        .filter(match => typeof match.metadata?.text === 'string')
+        .map(match => ({
+          chunkId: match.id,
+          documentId: match.metadata.documentId as string | undefined,
+          title: match.metadata.title as string | undefined,
+          type: match.metadata.type as string | undefined,
+          text: match.metadata.text as string,
+          score: match.score,
+          vectorScore: match.score
+        }));
+
+      if (mode !== 'hybrid') return candidates;
+
+      return this.combineKeywordScores(candidates, await this.knowledgeService.searchText(queryText, poolSize, types));
     } catch (error) {
       console.error(' Error querying context:', error);
-      return [];
+      throw error;
     }
   }
 
-  async generateSuggestedReply(email: Email): Promise<SuggestedReply> {
-    try {
-      // Query relevant context from vector DB
-      const queryText = `${email.subject} ${email.body}`;
-      const relevantContexts = await this.queryRelevantContext(queryText);
-
-      if (relevantContexts.length === 0) {
-        return {
-          reply: 'No relevant context found. Please add product information and outreach agendas to the vector database.',
-          confidence: 0,
-          context: []
-        };
+  /**
+   * Weighted sum of the vector score (negative similarity counts as 0) and
+   * the BM25 score scaled against the best keyword match. Chunks found by
+   * only one of the two get 0 for the other.
+   */
+  private combineKeywordScores(candidates: RetrievedContext[], keywordMatches: KnowledgeTextMatch[]): RetrievedContext[] {
+    const weight = config.rag.hybridVectorWeight;
+    const bestKeywordScore = keywordMatches[0]?.score || 1;
+    const byId = new Map(candidates.map(candidate => [candidate.chunkId, { ...candidate, keywordScore: 0 }]));
+
+    for (const { document, chunk, score } of keywordMatches) {
+      const existing = byId.get(chunk.id);
+      const keywordScore = score / bestKeywordScore;
+
+      if (existing) {
+        existing.keywordScore = keywordScore;
+      } else {
+        byId.set(chunk.id, {
+          chunkId: chunk.id,
+          documentId: document.id,
+          title: document.title,
+          type: document.type,
+          text: chunk.text,
+          score: 0,
+          keywordScore
+        });
       }
-
-      // Generate reply using RAG
-      const prompt = `
-You are an AI assistant helping to draft professional email replies based on our product information and outreach strategy.
-
-Relevant Context from our knowledge base:
-${relevantContexts.map((ctx, i) => `${i + 1}. ${ctx}`).join('\n\n')}
-
-Incoming Email:
-From: ${email.from}
-Subject: ${email.subject}
-Body: ${email.body}
-
-Based on the context above, generate a professional and helpful reply. The reply should:
-1. Address the sender's inquiry or interest
-2. Use information from the context appropriately
-3. Include any relevant meeting links or next steps mentioned in the context
-4. Be concise and professional
-5. Be ready to send (no placeholders like [Your Name])
-
-Generate only the email reply text, nothing else.
-`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional email assistant that uses company knowledge to craft perfect replies.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      });
-
-      const reply = response.choices[0].message.content || 'Unable to generate reply';
-
-      return {
-        reply,
-        confidence: relevantContexts.length > 0 ? 0.85 : 0.5,
-        context: relevantContexts
-      };
-    } catch (error) {
-      console.error(' Error generating suggested reply:', error);
-      throw error;
     }
+
+    return [...byId.values()]
+      .map(candidate => ({
+        ...candidate,
+        score: weight * Math.max(0, candidate.vectorScore ?? 0) + (1 - weight) * candidate.keywordScore
+      }))
+      .sort((a, b) => b.score - a.score);
   }
 
   private async createEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text
-      });
-
-      return response.data[0].embedding;
+      return await this.llm.embed(text);
     } catch (error) {
       console.error(' Error creating embedding:', error);
       throw error;
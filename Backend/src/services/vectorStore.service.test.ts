@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { LocalVectorStore, VectorRecord } from './vectorStore.service';
+
+const RECORDS: VectorRecord[] = [
+  { id: 'pricing#0', values: [1, 0, 0], metadata: { text: 'Pricing', type: 'product_context' } },
+  { id: 'demo#0', values: [0.8, 0.6, 0], metadata: { text: 'Book a demo', type: 'outreach_agenda', tags: ['sales', 'demo'] } },
+  { id: 'faq#0', values: [0, 0, 1], metadata: { text: 'FAQ', type: 'product_context' } }
+];
+
+describe('LocalVectorStore', () => {
+  const originalDataDir = config.storage.dataDir;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectors-'));
+    config.storage.dataDir = dataDir;
+  });
+
+  afterEach(async () => {
+    config.storage.dataDir = originalDataDir;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('ranks stored vectors by cosine similarity', async () => {
+    const store = new LocalVectorStore(3);
+    await store.upsert(RECORDS);
+
+    const matches = await store.query({ vector: [1, 0, 0], topK: 2 });
+
+    expect(matches.map(match => [match.id, match.score])).toEqual([['pricing#0', 1], ['demo#0', 0.8]]);
+    expect(matches[0].metadata.text).toBe('Pricing');
+  });
+
+  it('filters on metadata, with arrays matching any value', async () => {
+    const store = new LocalVectorStore(3);
+    await store.upsert(RECORDS);
+
+    const byType = await store.query({ vector: [1, 0, 0], topK: 5, filter: { type: 'product_context' } });
+    const byTag = await store.query({ vector: [1, 0, 0], topK: 5, filter: { tags: ['demo', 'other'] } });
+
+    expect(byType.map(match => match.id)).toEqual(['pricing#0', 'faq#0']);
+    expect(byTag.map(match => match.id)).toEqual(['demo#0']);
+  });
+
+  it('replaces records by ID, deletes them and keeps them across restarts', async () => {
+    const store = new LocalVectorStore(3);
+    await store.upsert(RECORDS);
+    await store.upsert([{ ...RECORDS[2], values: [1, 0, 0] }]);
+    await store.delete(['pricing#0']);
+
+    const reopened = new LocalVectorStore(3);
+    const matches = await reopened.query({ vector: [1, 0, 0], topK: 5 });
+
+    expect(matches.map(match => [match.id, match.score])).toEqual([['faq#0', 1], ['demo#0', 0.8]]);
+  });
+});
@@ -0,0 +1,285 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import { Client } from '@elastic/elasticsearch';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { cosineSimilarity } from '../utils/vector';
+
+// Metadata values must be flat so every backend can filter on them
+export type VectorMetadata = Record<string, string | number | boolean | string[]>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  // Cosine similarity, -1 to 1
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  // Metadata equality; an array matches any of its values
+  filter?: Record<string, string | string[]>;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  // Creates the index if needed
+  initialize(): Promise<void>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+}
+
+function matchesFilter(metadata: VectorMetadata, filter: Record<string, string | string[]> = {}): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const value = metadata[key];
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return Array.isArray(value)
+      ? value.some(entry => accepted.includes(entry))
+      : accepted.includes(String(value));
+  });
+}
+
+/**
+ * Pinecone serverless index (AWS us-east-1), created on first start.
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private pinecone: Pinecone;
+  private indexName: string;
+  private dimension: number;
+
+  constructor(dimension: number) {
+    this.pinecone = new Pinecone({
+      apiKey: config.pinecone.apiKey
+    });
+    this.indexName = config.pinecone.indexName;
+    this.dimension = dimension;
+  }
+
+  async initialize(): Promise<void> {
+    const indexes = await this.pinecone.listIndexes();
+    const indexExists = indexes.indexes?.some(idx => idx.name === this.indexName);
+
+    if (!indexExists) {
+      console.log(`Creating Pinecone index: ${this.indexName}`);
+      await this.pinecone.createIndex({
+        name: this.indexName,
+        dimension: this.dimension,
+        metric: 'cosine',
+        spec: {
+          serverless: {
+            cloud: 'aws',
+            region: 'us-east-1'
+          }
+        }
+      });
+      console.log(` Pinecone index created: ${this.indexName}`);
+    } else {
+      console.log(` Pinecone index exists: ${this.indexName}`);
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.pinecone.Index(this.indexName).upsert(records);
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const pineconeFilter = filter && Object.keys(filter).length > 0
+      ? Object.fromEntries(Object.entries(filter).map(([key, value]) =>
+        [key, Array.isArray(value) ? { $in: value } : { $eq: value }]
+      ))
+      : undefined;
+
+    const response = await this.pinecone.Index(this.indexName).query({
+      vector,
+      topK,
+      filter: pineconeFilter,
+      includeMetadata: true
+    });
+
+    return response.matches.map(match => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: (match.metadata || {}) as VectorMetadata
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.pinecone.Index(this.indexName).deleteMany(ids);
+  }
+}
+
+/**
+ * dense_vector kNN search in its own index in the existing Elasticsearch
+ * cluster, so RAG needs no external service.
+ */
+export class ElasticsearchVectorStore implements VectorStore {
+  readonly name = 'elasticsearch';
+  private client: Client;
+  private index: string;
+  private dimension: number;
+
+  constructor(dimension: number) {
+    this.client = new Client({ node: config.elasticsearch.node });
+    this.index = config.vectorStore.elasticsearchIndex;
+    this.dimension = dimension;
+  }
+
+  async initialize(): Promise<void> {
+    const exists = await this.client.indices.exists({ index: this.index });
+
+    if (!exists) {
+      await this.client.indices.create({
+        index: this.index,
+        mappings: {
+          properties: {
+            vector: { type: 'dense_vector', dims: this.dimension, index: true, similarity: 'cosine' },
+            // Arbitrary keys, each searchable as an exact value
+            metadata: { type: 'flattened' }
+          }
+        }
+      });
+      console.log(` Vector index '${this.index}' created (${this.dimension} dimensions)`);
+    } else {
+      console.log(` Vector index '${this.index}' exists`);
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const operations = records.flatMap(record => [
+      { index: { _index: this.index, _id: record.id } },
+      { vector: record.values, metadata: record.metadata }
+    ]);
+    const response = await this.client.bulk({ operations, refresh: 'wait_for' });
+
+    if (response.errors) {
+      const failed = response.items.find(item => item.index?.error);
+      throw new Error(`Error storing vectors: ${failed?.index?.error?.reason || 'unknown error'}`);
+    }
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const filters = Object.entries(filter || {}).map(([key, value]) =>
+      Array.isArray(value)
+        ? { terms: { [`metadata.${key}`]: value } }
+        : { term: { [`metadata.${key}`]: value } }
+    );
+
+    const response = await this.client.search<{ metadata: VectorMetadata }>({
+      index: this.index,
+      knn: {
+        field: 'vector',
+        query_vector: vector,
+        k: topK,
+        num_candidates: Math.max(topK * 10, 100),
+        filter: filters
+      },
+      _source: ['metadata'],
+      size: topK
+    });
+
+    // Elasticsearch reports cosine similarity as (1 + cosine) / 2
+    return response.hits.hits.map(hit => ({
+      id: hit._id!,
+      score: (hit._score ?? 0) * 2 - 1,
+      metadata: hit._source?.metadata || {}
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.client.bulk({
+      operations: ids.map(id => ({ delete: { _index: this.index, _id: id } })),
+      refresh: 'wait_for'
+    });
+  }
+}
+
+// Lets concurrent changes (e.g. documents ingested together) share one rewrite of vectors.json
+const LOCAL_WRITE_DELAY_MS = 200;
+
+interface LocalVectorData {
+  records: VectorRecord[];
+}
+
+/**
+ * Embedded index in DATA_DIR/vectors.json with exact (brute-force) cosine
+ * search. Needs no services at all, which suits air-gapped deployments,
+ * development and tests; fine for knowledge bases up to a few thousand
+ * chunks.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  // Written compactly: embeddings make this file large
+  private store = new JsonStore<LocalVectorData>('vectors.json', { records: [] }, { pretty: false, writeDelayMs: LOCAL_WRITE_DELAY_MS });
+  private dimension: number;
+
+  constructor(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  async initialize(): Promise<void> {
+    const { records } = await this.store.get();
+    const mismatched = records.filter(record => record.values.length !== this.dimension).length;
+
+    if (mismatched > 0) {
+      console.warn(`  ${mismatched} stored vectors don't have ${this.dimension} dimensions and will never match; store the content again`);
+    }
+    console.log(` Local vector store loaded (${records.length} vectors)`);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const ids = new Set(records.map(record => record.id));
+    await this.store.update(data => {
+      data.records = [...data.records.filter(record => !ids.has(record.id)), ...records];
+    });
+  }
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorMatch[]> {
+    const { records } = await this.store.get();
+
+    return records
+      .filter(record => matchesFilter(record.metadata, filter))
+      .map(record => ({ id: record.id, score: cosineSimilarity(vector, record.values), metadata: record.metadata }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const remove = new Set(ids);
+    await this.store.update(data => {
+      data.records = data.records.filter(record => !remove.has(record.id));
+    });
+  }
+}
+
+export function createVectorStore(dimension: number): VectorStore {
+  const { provider } = config.vectorStore;
+
+  switch (provider) {
+    case 'pinecone':
+      return new PineconeVectorStore(dimension);
+    case 'elasticsearch':
+      return new ElasticsearchVectorStore(dimension);
+    case 'local':
+      return new LocalVectorStore(dimension);
+    default:
+      throw new Error(`Unknown vector store: ${provider}`);
+  }
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { Job, WebhookDelivery, WebhookEventType } from '../types';
+import { JobQueueService } from './jobQueue.service';
+import { signWebhookPayload, WebhookService } from './webhook.service';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!await check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for webhook deliveries');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+// A local receiver that answers with the queued statuses in order, then 200
+describe('WebhookService', () => {
+  const originalDataDir = config.storage.dataDir;
+  const originalJobs = { ...config.jobs };
+  let server: Server;
+  let url: string;
+  let received: Received[] = [];
+  let statuses: number[] = [];
+  let dataDir: string;
+  let jobQueue: JobQueueService;
+  let service: WebhookService;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() || 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+    config.storage.dataDir = dataDir;
+    Object.assign(config.jobs, { pollIntervalMs: 10, backoffBaseMs: 10, backoffMaxMs: 50 });
+
+    jobQueue = new JobQueueService();
+    service = new WebhookService(jobQueue);
+    await jobQueue.start();
+  });
+
+  afterEach(async () => {
+    // A delivery is settled before its job is, so let the queue save the job first
+    await waitFor(async () => {
+      const { jobs }: { jobs: Job[] } = JSON.parse(await fs.readFile(path.join(dataDir, 'jobs.json'), 'utf8'));
+      return jobs.every(job => job.status === 'completed' || job.status === 'failed');
+    });
+    jobQueue.stop();
+    config.storage.dataDir = originalDataDir;
+    Object.assign(config.jobs, originalJobs);
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const subscribe = (events: WebhookEventType[] = ['email.received'], enabled = true) =>
+    service.createSubscription({ name: 'Receiver', url, events, secret: 'shh', enabled });
+
+  const settled = async (): Promise<WebhookDelivery[]> => {
+    let deliveries: WebhookDelivery[] = [];
+    await waitFor(async () => {
+      deliveries = (await service.listDeliveries()).deliveries;
+      return deliveries.length > 0 && deliveries.every(delivery => delivery.status !== 'pending');
+    });
+    return deliveries;
+  };
+
+  it('sends each event signed to the subscribed, enabled endpoints', async () => {
+    await subscribe();
+    await subscribe(['email.categorized']);
+    await subscribe(['email.received'], false);
+
+    await service.emit('email.received', { emailId: 'e1' });
+    const [delivery] = await settled();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toMatchObject({ event: 'email.received', data: { emailId: 'e1' } });
+    expect(headers['x-onebox-event']).toBe('email.received');
+    expect(headers['x-onebox-delivery']).toBe(delivery.id);
+    expect(headers['x-onebox-signature']).toBe(`sha256=${signWebhookPayload('shh', Number(headers['x-onebox-timestamp']), body)}`);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: [{ responseStatus: 200 }] });
+  });
+
+  it('retries failed deliveries and logs every attempt', async () => {
+    await subscribe();
+    statuses = [500, 503];
+
+    await service.emit('email.received', { emailId: 'e1' });
+    const [delivery] = await settled();
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map(attempt => attempt.responseStatus)).toEqual([500, 503, 200]);
+    // The event ID stays the same across attempts so receivers can dedupe
+    expect(new Set(received.map(request => JSON.parse(request.body).id)).size).toBe(1);
+  });
+
+  it('marks a rejected delivery dead and redelivers the same event', async () => {
+    await subscribe();
+    statuses = [400];
+
+    await service.emit('email.received', { emailId: 'e1' });
+    const [dead] = await settled();
+    expect(dead).toMatchObject({ status: 'dead', attempts: [{ responseStatus: 400 }] });
+
+    const redelivery = await service.redeliver(dead.id);
+    await waitFor(async () => (await service.getDelivery(redelivery!.id))?.status === 'delivered');
+
+    expect(redelivery).toMatchObject({ redeliveryOf: dead.id, payload: { id: dead.payload.id } });
+    expect(received).toHaveLength(2);
+  });
+});
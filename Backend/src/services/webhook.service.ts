@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { JsonStore } from '../utils/jsonStore';
+import { JobQueueService } from './jobQueue.service';
+import {
+  Email,
+  Job,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookJobPayload,
+  WebhookSubscription,
+  WebhookSubscriptionInput
+} from '../types';
+
+interface SubscriptionStore {
+  subscriptions: WebhookSubscription[];
+}
+
+interface DeliveryStore {
+  deliveries: WebhookDelivery[];
+}
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['email.received', 'email.categorized', 'email.interested', 'thread.replied'];
+
+// Email fields sent with email.* events
+export function emailEventData(email: Email): Record<string, any> {
+  return {
+    emailId: email.id,
+    accountId: email.accountId,
+    messageId: email.messageId,
+    threadId: email.threadId,
+    folder: email.folder,
+    from: email.from,
+    to: email.to,
+    cc: email.cc,
+    subject: email.subject,
+    date: email.date,
+    preview: (email.body || '').substring(0, 200),
+    category: email.category,
+    classification: email.classification
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>" as hex. Receivers recompute it from
+ * the raw body and X-Onebox-Timestamp, and should reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Outbound webhook subscriptions. Each event becomes one delivery per
+ * subscribed endpoint, sent by a background job so failures are retried
+ * with backoff; deliveries that run out of attempts are marked dead and
+ * can be redelivered from the delivery log.
+ */
+export class WebhookService {
+  private subscriptions = new JsonStore<SubscriptionStore>('webhooks.json', { subscriptions: [] });
+  private deliveries = new JsonStore<DeliveryStore>('webhook-deliveries.json', { deliveries: [] });
+  private jobQueue: JobQueueService;
+
+  constructor(jobQueue: JobQueueService) {
+    this.jobQueue = jobQueue;
+
+    this.jobQueue.register<WebhookJobPayload>('webhook', {
+      run: job => this.runDeliveryJob(job),
+      onFailed: (job, error) => this.markDead(job, error)
+    }, { ...config.jobs.webhook, maxAttempts: config.webhook.maxAttempts });
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const { subscriptions } = await this.subscriptions.get();
+    return [...subscriptions];
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const { subscriptions } = await this.subscriptions.get();
+    return subscriptions.find(subscription => subscription.id === id);
+  }
+
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+    const subscription: WebhookSubscription = { ...input, id: uuidv4(), createdAt: now, updatedAt: now };
+
+    await this.subscriptions.update(data => {
+      data.subscriptions.push(subscription);
+    });
+
+    console.log(` Created webhook subscription ${subscription.name} (${subscription.events.join(', ')})`);
+    return subscription;
+  }
+
+  async updateSubscription(id: string, changes: Partial<WebhookSubscriptionInput>): Promise<WebhookSubscription | undefined> {
+    const current = await this.getSubscription(id);
+    if (!current) return undefined;
+
+    const updated: WebhookSubscription = {
+      ...current,
+      ...changes,
+      id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.subscriptions.update(data => {
+      const index = data.subscriptions.findIndex(subscription => subscription.id === id);
+      data.subscriptions[index] = updated;
+    });
+
+    return updated;
+  }
+
+  // Pending deliveries for the subscription are marked dead when their job runs
+  async deleteSubscription(id: string): Promise<boolean> {
+    const current = await this.getSubscription(id);
+    if (!current) return false;
+
+    await this.subscriptions.update(data => {
+      data.subscriptions = data.subscriptions.filter(subscription => subscription.id !== id);
+    });
+    console.log(` Deleted webhook subscription ${current.name}`);
+    return true;
+  }
+
+  // Never throws: a webhook problem must not fail syncing or categorization
+  async emit(event: WebhookEventType, data: Record<string, any>): Promise<void> {
+    await this.emitMany(event, [data]);
+  }
+
+  async emitMany(event: WebhookEventType, items: Array<Record<string, any>>): Promise<void> {
+    try {
+      const subscriptions = (await this.listSubscriptions())
+        .filter(subscription => subscription.enabled && subscription.events.includes(event));
+      if (subscriptions.length === 0 || items.length === 0) return;
+
+      const now = new Date().toISOString();
+      const deliveries: WebhookDelivery[] = [];
+      for (const data of items) {
+        const payload: WebhookEvent = { id: uuidv4(), event, createdAt: now, data };
+        for (const subscription of subscriptions) {
+          deliveries.push(this.newDelivery(subscription.id, payload));
+        }
+      }
+
+      await this.queue(deliveries);
+    } catch (error) {
+      console.error(` Error queueing ${event} webhooks:`, error);
+    }
+  }
+
+  async listDeliveries(deliveryQuery: WebhookDeliveryQuery = {}): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const { subscriptionId, status, event, limit = 100 } = deliveryQuery;
+    const { deliveries } = await this.deliveries.get();
+
+    const matching = deliveries
+      .filter(delivery =>
+        (!subscriptionId || delivery.subscriptionId === subscriptionId)
+        && (!status || delivery.status === status)
+        && (!event || delivery.event === event)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      deliveries: matching.slice(0, limit),
+      total: matching.length
+    };
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const { deliveries } = await this.deliveries.get();
+    return deliveries.find(delivery => delivery.id === id);
+  }
+
+  /**
+   * Sends an event again as a new delivery to the same subscription. The
+   * payload, including the event ID, is unchanged so receivers can dedupe.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery | undefined> {
+    const original = await this.getDelivery(id);
+    if (!original) return undefined;
+
+    const delivery = { ...this.newDelivery(original.subscriptionId, original.payload), redeliveryOf: original.id };
+    await this.queue([delivery]);
+    return delivery;
+  }
+
+  private newDelivery(subscriptionId: string, payload: WebhookEvent): WebhookDelivery {
+    const now = new Date().toISOString();
+    return {
+      id: uuidv4(),
+      subscriptionId,
+      event: payload.event,
+      payload,
+      status: 'pending',
+      attempts: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private async queue(deliveries: WebhookDelivery[]): Promise<void> {
+    await this.deliveries.update(data => {
+      data.deliveries.push(...deliveries);
+      this.prune(data);
+    });
+    await this.jobQueue.enqueueMany<WebhookJobPayload>('webhook', deliveries.map(delivery => ({ deliveryId: delivery.id })));
+  }
+
+  // Throws on failure so the job queue retries with backoff
+  private async runDeliveryJob(job: Job<WebhookJobPayload>): Promise<void> {
+    const delivery = await this.getDelivery(job.payload.deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const subscription = await this.getSubscription(delivery.subscriptionId);
+    if (!subscription) {
+      await this.updateDelivery(delivery, { status: 'dead' });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        timeout: config.webhook.timeoutMs,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Onebox-Webhooks/1.0',
+          'X-Onebox-Event': delivery.event,
+          'X-Onebox-Delivery': delivery.id,
+          'X-Onebox-Timestamp': String(timestamp),
+          'X-Onebox-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`
+        }
+      });
+
+      await this.updateDelivery(delivery, {
+        status: 'delivered',
+        deliveredAt: new Date().toISOString(),
+        attempts: [...delivery.attempts, {
+          at: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          responseStatus: response.status
+        }]
+      });
+    } catch (error: any) {
+      await this.updateDelivery(delivery, {
+        attempts: [...delivery.attempts, {
+          at: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          responseStatus: error.response?.status,
+          error: error.message
+        }]
+      });
+      throw error;
+    }
+  }
+
+  // Dead letter: out of attempts, or the endpoint rejected the payload (4xx)
+  private async markDead(job: Job<WebhookJobPayload>, error: Error): Promise<void> {
+    const delivery = await this.getDelivery(job.payload.deliveryId);
+    if (!delivery) return;
+
+    await this.updateDelivery(delivery, { status: 'dead' });
+    console.warn(`  Webhook delivery ${delivery.id} (${delivery.event}) is dead: ${error.message}`);
+  }
+
+  private async updateDelivery(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): Promise<void> {
+    await this.deliveries.update(() => {
+      Object.assign(delivery, changes, { updatedAt: new Date().toISOString() });
+    });
+  }
+
+  // Drops finished deliveries past the retention period
+  private prune(data: DeliveryStore): void {
+    const cutoff = Date.now() - config.webhook.retentionMs;
+    data.deliveries = data.deliveries.filter(delivery =>
+      delivery.status === 'pending' || Date.parse(delivery.updatedAt) >= cutoff
+    );
+  }
+}
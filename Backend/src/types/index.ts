@@ -5,6 +5,88 @@ export interface EmailAccount {
   host: string;
   port: number;
   name: string;
+  authType?: AuthType;
+  oauth2?: OAuth2Credentials;
+  connection?: ConnectionSettings;
+  folders?: string[];
+  smtp?: SmtpSettings;
+}
+
+export type AuthType = 'password' | 'oauth2';
+
+export type SecurityMode = 'tls' | 'starttls' | 'none';
+
+export interface ConnectionSettings {
+  // IMAP transport security; defaults to implicit TLS
+  security?: SecurityMode;
+  // PEM-encoded CA bundle to trust, e.g. for self-signed servers
+  ca?: string;
+  // Pinned SHA-256 fingerprint of the server certificate
+  fingerprint?: string;
+  allowInvalidCertificates?: boolean;
+  // http://, socks:// or socks5:// proxy URL
+  proxy?: string;
+  connectionTimeoutMs?: number;
+  greetingTimeoutMs?: number;
+  socketTimeoutMs?: number;
+}
+
+export type OAuthProviderName = 'google' | 'microsoft';
+
+export interface OAuth2Credentials {
+  provider: OAuthProviderName;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+export interface PendingAuthorization {
+  provider: OAuthProviderName;
+  accountId?: string;
+  user?: string;
+  name?: string;
+  createdAt: number;
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+export interface ManagedAccount extends EmailAccount {
+  paused: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AccountInput = Omit<EmailAccount, 'id'>;
+
+export type AccountStatus = 'active' | 'connecting' | 'paused' | 'error' | 'stopped';
+
+export interface AccountSummary extends Omit<ManagedAccount, 'password'> {
+  status: AccountStatus;
+  lastError?: string;
+}
+
+export interface ConnectionCheck {
+  success: boolean;
+  error?: string;
+  certificateError?: string;
+}
+
+export interface ConnectionTestResult {
+  imap: ConnectionCheck;
+  smtp?: ConnectionCheck;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  // Overrides secure; see SmtpService for the default
+  security?: SecurityMode;
+  saveToSent: boolean;
 }
 
 export interface Email {
@@ -14,24 +96,87 @@ export interface Email {
   from: string;
   to: string[];
   cc?: string[];
+  // Reply-To addresses, where replies go instead of `from`
+  replyTo?: string[];
   subject: string;
   body: string;
   html?: string;
   date: Date;
   folder: string;
   uid: number;
-  category?: EmailCategory;
+  uidValidity?: string;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  // Subject without Re:/Fwd: prefixes, used to thread mail that lacks reply headers
+  normalizedSubject?: string;
+  // Lower-cased header names; stored for rules, not indexed
+  headers?: Record<string, string>;
+  // Name of a category from the category store
+  category?: string;
+  classification?: ClassificationInfo;
   isRead: boolean;
+  isFlagged?: boolean;
   attachments: EmailAttachment[];
+  // Text extracted from attachments, indexed for search
+  attachmentText?: string;
   timestamp: Date;
 }
 
+export interface FolderInfo {
+  path: string;
+  name: string;
+  specialUse?: string;
+  messages: number;
+  unseen: number;
+  syncing: boolean;
+}
+
+export interface FolderSyncState {
+  accountId: string;
+  folder: string;
+  uidValidity: string;
+  highestUid: number;
+  highestModseq?: string;
+  lastSyncedAt: string;
+}
+
+// Server-side flag state reported by a sync
+export interface FlagUpdate {
+  accountId: string;
+  folder: string;
+  uidValidity: string;
+  uid: number;
+  isRead: boolean;
+  isFlagged: boolean;
+}
+
+export interface EmailUpdate {
+  isRead?: boolean;
+  isFlagged?: boolean;
+  // Mailbox path or special-use flag ("\\Archive", "\\Junk") to move the email to
+  folder?: string;
+  archive?: boolean;
+}
+
+export interface EmailUpdateResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  // The email as indexed after the change; moves give it a new ID
+  email?: Email;
+}
+
 export interface EmailAttachment {
   filename: string;
   contentType: string;
   size: number;
+  // SHA-256 of the content in the blob store; missing if it wasn't stored
+  contentHash?: string;
+  contentId?: string;
 }
 
+// Names of the built-in categories; users can add, rename or remove them
 export enum EmailCategory {
   INTERESTED = 'Interested',
   MEETING_BOOKED = 'Meeting Booked',
@@ -41,11 +186,135 @@ export enum EmailCategory {
   UNCATEGORIZED = 'Uncategorized'
 }
 
+export interface Category {
+  id: string;
+  name: string;
+  // Tells the AI when the category applies
+  description: string;
+  color: string;
+  // Emails landing in this category trigger Slack/webhook notifications
+  notify: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CategoryInput = Omit<Category, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type ClassificationSource = 'rule' | 'ai' | 'human';
+
+export interface ClassificationInfo {
+  // A human-set category is locked against automatic recategorization
+  source: ClassificationSource;
+  ruleId?: string;
+  reasoning: string;
+  // AI results only: 0-1 as reported by the model
+  confidence?: number;
+  provider?: LLMProviderName;
+  model?: string;
+  // The AI call failed and the email fell back to Uncategorized
+  failed?: boolean;
+  classifiedAt?: string;
+}
+
+// A human-chosen category, kept as a few-shot example and for accuracy reports
+export interface LabeledExample {
+  emailId: string;
+  accountId: string;
+  from: string;
+  subject: string;
+  // Start of the body, used in prompts
+  body: string;
+  label: string;
+  // Category and source before the first human override
+  predicted?: string;
+  predictedBy?: Exclude<ClassificationSource, 'human'>;
+  note?: string;
+  embedding?: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SimilarExample {
+  example: Omit<LabeledExample, 'embedding'>;
+  score: number;
+}
+
+export interface CategoryAccuracy {
+  support: number;
+  predicted: number;
+  truePositives: number;
+  // null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface AccuracyReport {
+  source: Exclude<ClassificationSource, 'human'>;
+  total: number;
+  correct: number;
+  accuracy: number | null;
+  labels: string[];
+  // confusionMatrix[human label][predicted category]
+  confusionMatrix: Record<string, Record<string, number>>;
+  categories: Record<string, CategoryAccuracy>;
+}
+
+export interface RuleConditions {
+  // Header name to regex; an empty pattern only requires the header to be present
+  headers?: Record<string, string>;
+  // Matches the sender's domain and its subdomains
+  senderDomains?: string[];
+  subject?: string;
+  body?: string;
+  // Content-type prefixes ("text/calendar") or file extensions (".ics")
+  attachmentTypes?: string[];
+}
+
+export interface RuleAction {
+  // Assigning a category also skips the AI
+  category?: string;
+  skipAI?: boolean;
+}
+
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Lower runs first; the first matching rule wins
+  priority: number;
+  match: 'all' | 'any';
+  conditions: RuleConditions;
+  action: RuleAction;
+  explanation: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RuleInput = Omit<ClassificationRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface RuleMatch {
+  rule: ClassificationRule;
+  category: string;
+  skipAI: boolean;
+}
+
+export interface RuleDryRunResult {
+  scanned: number;
+  matched: Array<{
+    id: string;
+    subject: string;
+    from: string;
+    date: Date;
+    currentCategory?: string;
+    category: string;
+  }>;
+}
+
 export interface SearchQuery {
   query?: string;
   folder?: string;
   accountId?: string;
-  category?: EmailCategory;
+  category?: string;
   from?: Date;
   to?: Date;
   page?: number;
@@ -59,14 +328,429 @@ export interface SearchResult {
   size: number;
 }
 
+export interface ThreadQuery {
+  query?: string;
+  folder?: string;
+  accountId?: string;
+  page?: number;
+  size?: number;
+}
+
+export interface ThreadSummary {
+  threadId: string;
+  subject: string;
+  participants: string[];
+  accountIds: string[];
+  folders: string[];
+  messageCount: number;
+  unreadCount: number;
+  // Category of the latest inbound message
+  category?: string;
+  firstMessageAt: Date;
+  lastMessageAt: Date;
+  latestEmailId: string;
+}
+
+export interface EmailThread extends ThreadSummary {
+  emails: Email[];
+}
+
+export interface ThreadSearchResult {
+  threads: ThreadSummary[];
+  total: number;
+  page: number;
+  size: number;
+}
+
+export type LLMProviderName = 'openai' | 'local' | 'fake';
+
+export type VectorStoreName = 'pinecone' | 'elasticsearch' | 'local';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object response
+  json?: boolean;
+}
+
 export interface AICategorizationResult {
-  category: EmailCategory;
+  category: string;
   confidence: number;
   reasoning: string;
+  provider: LLMProviderName;
+  model: string;
+  failed?: boolean;
+}
+
+export interface ReviewQueueQuery {
+  // Emails the AI was less confident about than this are listed
+  threshold: number;
+  accountId?: string;
+  category?: string;
+  page?: number;
+  size?: number;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface Job<T = any> {
+  id: string;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the next attempt may start
+  runAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobQuery {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+}
+
+export interface JobListResult {
+  jobs: Job[];
+  total: number;
+  counts: Record<JobStatus, number>;
+}
+
+export interface CategorizeJobPayload {
+  emailId: string;
+}
+
+export interface NotifyJobPayload {
+  emailId: string;
+  routeId: string;
+}
+
+export interface DigestJobPayload {
+  routeId: string;
+}
+
+export type NotificationChannelType = 'slack' | 'webhook' | 'teams' | 'discord' | 'email-digest';
+
+export interface NotificationConditions {
+  // Category names; without them the route follows each category's notify flag
+  categories?: string[];
+  accountIds?: string[];
+  // Matches the sender's domain and its subdomains
+  senderDomains?: string[];
+  // Any of these in the subject or body (case-insensitive)
+  keywords?: string[];
+  // AI confidence; rule and manual categories count as 1
+  minConfidence?: number;
+}
+
+export interface NotificationChannel {
+  type: NotificationChannelType;
+  // Incoming webhook URL (all types except email-digest)
+  url?: string;
+  // Digest recipients and the account whose SMTP settings send it
+  to?: string[];
+  accountId?: string;
+  intervalMinutes?: number;
+  // Webhook channels only: send Interested emails as email.interested, like the WEBHOOK_URL integration always has
+  legacyEvents?: boolean;
+}
+
+// {{placeholder}} templates; NotificationService lists the available fields
+export interface NotificationTemplates {
+  title?: string;
+  body?: string;
+}
+
+// Local times (HH:MM) in an IANA time zone, server time by default; may wrap past midnight
+export interface QuietHours {
+  start: string;
+  end: string;
+  timezone?: string;
+}
+
+// At most limit notifications per window; the rest are collapsed into one summary
+export interface NotificationThrottle {
+  limit: number;
+  windowMinutes: number;
+}
+
+export interface NotificationRoute {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: NotificationConditions;
+  channel: NotificationChannel;
+  templates: NotificationTemplates;
+  // Held and sent as a summary when they end; null or absent for none
+  quietHours?: QuietHours | null;
+  // Falls back to the NOTIFICATIONS_THROTTLE_* defaults
+  throttle?: NotificationThrottle;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NotificationRouteInput = Omit<NotificationRoute, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface DigestItem {
+  emailId: string;
+  accountId: string;
+  from: string;
+  subject: string;
+  category?: string;
+  date: Date;
+  preview: string;
+  addedAt: string;
+}
+
+export type WebhookEventType = 'email.received' | 'email.categorized' | 'email.interested' | 'thread.replied';
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  // HMAC-SHA256 key for the X-Onebox-Signature header
+  secret: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookSubscriptionInput = Omit<WebhookSubscription, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The JSON body of a delivery; id is the same for every delivery of one event
+export interface WebhookEvent {
+  id: string;
+  event: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+// delivered, or dead once retries are used up
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  // Set when this delivery was created by redelivering another one
+  redeliveryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+export interface WebhookDeliveryQuery {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEventType;
+  limit?: number;
+}
+
+export interface WebhookJobPayload {
+  deliveryId: string;
+}
+
+export type KnowledgeFormat = 'markdown' | 'html' | 'pdf' | 'text';
+
+export interface KnowledgeChunk {
+  // Vector ID: <documentId>#v<version>#<index>
+  id: string;
+  index: number;
+  text: string;
+}
+
+export interface KnowledgeVersion {
+  version: number;
+  // SHA-256 of the extracted text; re-ingesting identical text is a no-op
+  contentHash: string;
+  format: KnowledgeFormat;
+  filename?: string;
+  characters: number;
+  chunkCount: number;
+  ingestedAt: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  // product_context, outreach_agenda or any other label, used to filter retrieval
+  type: string;
+  metadata: Record<string, string | number | boolean>;
+  // The current version; its chunks are the ones in the vector store
+  version: number;
+  chunks: KnowledgeChunk[];
+  versions: KnowledgeVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, 'chunks'> & { chunkCount: number };
+
+export interface KnowledgeIngestInput {
+  id?: string;
+  title: string;
+  type: string;
+  metadata?: Record<string, string | number | boolean>;
+  // Plain text, or a file's content with its name and/or content type
+  text?: string;
+  content?: Buffer;
+  filename?: string;
+  contentType?: string;
+  format?: KnowledgeFormat;
+}
+
+export interface KnowledgeIngestResult {
+  document: KnowledgeDocument;
+  status: 'created' | 'updated' | 'unchanged';
+}
+
+export type RetrievalMode = 'vector' | 'hybrid';
+
+// Per-request retrieval settings; unset ones come from config.rag
+export interface RetrievalOptions {
+  mode?: RetrievalMode;
+  topK?: number;
+  // Minimum score for a chunk to be used (the blended score in hybrid mode)
+  minScore?: number;
+  // Knowledge document types to search, e.g. product_context or outreach_agenda
+  types?: string[];
+}
+
+export interface RetrievedContext {
+  // Vector ID: <documentId>#v<version>#<index> for knowledge base chunks
+  chunkId: string;
+  documentId?: string;
+  title?: string;
+  type?: string;
+  text: string;
+  // Cosine similarity in vector mode; the weighted vector and keyword score in hybrid mode
+  score: number;
+  vectorScore?: number;
+  // BM25 score scaled to 0-1 against the best keyword match
+  keywordScore?: number;
+}
+
+// Retrieval options with the config defaults filled in
+export type ResolvedRetrieval = Required<Omit<RetrievalOptions, 'types'>> & { types?: string[] };
+
+export interface RetrievalResult {
+  retrieval: ResolvedRetrieval;
+  // Every scored chunk, best first
+  candidates: RetrievedContext[];
+  // The ones to use: at most topK, each scoring at least minScore
+  citations: RetrievedContext[];
+}
+
+export interface SuggestedReplyDebug {
+  retrieval: ResolvedRetrieval;
+  // Every scored chunk, including ones below minScore or past topK
+  candidates: RetrievedContext[];
+  // The exact messages sent to the model, when it was called
+  messages?: ChatMessage[];
 }
 
 export interface SuggestedReply {
   reply: string;
+  // Mean score of the cited chunks, 0 without any
   confidence: number;
   context: string[];
-}
\ No newline at end of file
+  citations: RetrievedContext[];
+  // Problems the post-checks found in the reply
+  warnings: ReplyWarning[];
+  debug?: SuggestedReplyDebug;
+}
+
+export interface ReplyWarning {
+  // Name of the post-processor that raised it, e.g. placeholders, pii or length
+  check: string;
+  message: string;
+}
+
+export type ReplyTone = 'formal' | 'casual';
+
+export type ReplyLength = 'short' | 'medium' | 'long';
+
+export interface DraftOptions {
+  tone: ReplyTone;
+  length: ReplyLength;
+  // Language name or code, or 'auto' to answer in the language of the email
+  language: string;
+}
+
+export interface DraftRequest extends Partial<DraftOptions> {
+  // Alternative drafts to write
+  count?: number;
+  retrieval?: RetrievalOptions;
+}
+
+export interface DraftRevision {
+  subject: string;
+  body: string;
+  // generated by the model, edited by hand or revised by the model on request
+  source: 'generated' | 'edited' | 'revised';
+  instructions?: string;
+  createdAt: string;
+}
+
+export interface ReplyDraft {
+  id: string;
+  emailId: string;
+  threadId?: string;
+  accountId: string;
+  // The current revision
+  subject: string;
+  body: string;
+  options: DraftOptions;
+  // Knowledge base chunks the draft was written from
+  citations: RetrievedContext[];
+  // Post-check warnings for the current revision
+  warnings: ReplyWarning[];
+  revisions: DraftRevision[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DraftRevisionRequest extends Partial<DraftOptions> {
+  instructions?: string;
+}
+
+export interface ReplyRequest {
+  text: string;
+  html?: string;
+  cc?: string[];
+  replyAll?: boolean;
+}
+
+export interface OutgoingMessage {
+  messageId: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  date: Date;
+  raw: Buffer;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('lower-cases and splits on anything but letters and digits', () => {
+    expect(tokenize('Pro-Plan: €49/month, Größe')).toEqual(['pro', 'plan', '49', 'month', 'größe']);
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = new Bm25Index([
+    { id: 'pricing', text: 'The Pro plan costs 49 dollars per month. Pricing is billed monthly.' },
+    { id: 'meeting', text: 'Book a meeting with our team using the calendar link.' },
+    { id: 'plans', text: 'Plans: Starter, Pro and Enterprise.' }
+  ]);
+
+  it('ranks documents with more and rarer matching terms first', () => {
+    const matches = index.search('pro plan pricing', 3);
+
+    expect(matches.map(match => match.id)).toEqual(['pricing', 'plans']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('leaves out documents that share no term with the query', () => {
+    expect(index.search('invoice refund', 3)).toEqual([]);
+  });
+
+  it('limits results to topK and the include filter', () => {
+    expect(index.search('pro', 1)).toHaveLength(1);
+    expect(index.search('pro', 3, id => id !== 'pricing').map(match => match.id)).toEqual(['plans']);
+  });
+
+  it('handles an empty index', () => {
+    expect(new Bm25Index([]).search('anything', 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+// Okapi BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * In-memory BM25 keyword index. Build it once over a document set and query
+ * it many times; rebuild it when the documents change.
+ */
+export class Bm25Index {
+  private termFrequencies: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequencies: Map<string, number> = new Map();
+  private ids: string[] = [];
+  private averageLength = 0;
+
+  constructor(documents: Bm25Document[]) {
+    for (const { id, text } of documents) {
+      const frequencies = new Map<string, number>();
+      const tokens = tokenize(text);
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const token of frequencies.keys()) {
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1);
+      }
+
+      this.ids.push(id);
+      this.termFrequencies.push(frequencies);
+      this.lengths.push(tokens.length);
+    }
+
+    const total = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.ids.length ? total / this.ids.length : 0;
+  }
+
+  // Best matches first; documents sharing no term with the query are left out
+  search(query: string, topK: number, include?: (id: string) => boolean): Bm25Match[] {
+    const terms = [...new Set(tokenize(query))];
+    const count = this.ids.length;
+    const matches: Bm25Match[] = [];
+
+    this.ids.forEach((id, index) => {
+      if (include && !include(id)) return;
+
+      const frequencies = this.termFrequencies[index];
+      const lengthRatio = this.averageLength ? this.lengths[index] / this.averageLength : 1;
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      }
+
+      if (score > 0) matches.push({ id, score });
+    });
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
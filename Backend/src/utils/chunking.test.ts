@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './chunking';
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('One paragraph.\n\nAnother one.', { size: 100, overlap: 20 })).toEqual([
+      'One paragraph.\n\nAnother one.'
+    ]);
+  });
+
+  it('breaks between paragraphs before sentences', () => {
+    const text = `${'a'.repeat(30)}\n\n${'b'.repeat(30)}`;
+    expect(chunkText(text, { size: 40, overlap: 0 })).toEqual(['a'.repeat(30), 'b'.repeat(30)]);
+  });
+
+  it('splits long paragraphs by sentence and keeps every chunk within size', () => {
+    const text = 'The first sentence is here. The second sentence follows it. A third one ends the paragraph.';
+    const chunks = chunkText(text, { size: 40, overlap: 0 });
+
+    expect(chunks).toEqual([
+      'The first sentence is here.',
+      'The second sentence follows it.',
+      'A third one ends the paragraph.'
+    ]);
+  });
+
+  it('repeats the end of a chunk at the start of the next', () => {
+    const chunks = chunkText('alpha beta gamma. delta epsilon zeta.', { size: 32, overlap: 12 });
+
+    // The overlap starts at a word boundary
+    expect(chunks).toEqual(['alpha beta gamma.', 'beta gamma. delta epsilon zeta.']);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(32));
+  });
+
+  it('cuts words longer than a chunk', () => {
+    expect(chunkText('x'.repeat(25), { size: 10, overlap: 0 })).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n ', { size: 10, overlap: 2 })).toEqual([]);
+  });
+});
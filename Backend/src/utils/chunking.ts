@@ -0,0 +1,91 @@
+export interface ChunkOptions {
+  // Maximum characters per chunk
+  size: number;
+  // Characters repeated from the end of one chunk at the start of the next
+  overlap: number;
+}
+
+interface Unit {
+  text: string;
+  // How the unit joins the one before it
+  separator: string;
+}
+
+function splitWords(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    // A single word longer than a chunk (a URL, base64, ...) is cut as-is
+    for (let start = 0; start < word.length; start += size) {
+      const part = word.slice(start, start + size);
+      if (current && current.length + 1 + part.length > size) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = current ? `${current} ${part}` : part;
+      }
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Paragraphs, falling back to sentences and then words for ones too long to fit
+function splitUnits(text: string, size: number): Unit[] {
+  const units: Unit[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    if (paragraph.length <= size) {
+      units.push({ text: paragraph, separator: '\n\n' });
+      continue;
+    }
+
+    const sentences = (paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) || [paragraph])
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+    sentences.forEach((sentence, index) => {
+      const separator = index === 0 ? '\n\n' : ' ';
+      const pieces = sentence.length <= size ? [sentence] : splitWords(sentence, size);
+      pieces.forEach((piece, pieceIndex) => units.push({ text: piece, separator: pieceIndex === 0 ? separator : ' ' }));
+    });
+  }
+
+  return units;
+}
+
+// The last `overlap` characters, starting at a word boundary
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return '';
+
+  const tail = text.slice(-overlap);
+  const boundary = tail.search(/\s/);
+  return (boundary >= 0 && tail.length === overlap ? tail.slice(boundary + 1) : tail).trim();
+}
+
+/**
+ * Splits text into chunks of at most `size` characters for embedding,
+ * breaking between paragraphs or sentences where possible. Consecutive
+ * chunks share up to `overlap` characters so context that spans a
+ * boundary is found from either side.
+ */
+export function chunkText(text: string, { size, overlap }: ChunkOptions): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const { text: unit, separator } of splitUnits(text, size)) {
+    if (!current) {
+      current = unit;
+    } else if (current.length + separator.length + unit.length <= size) {
+      current += separator + unit;
+    } else {
+      chunks.push(current);
+      const tail = overlapTail(current, overlap);
+      current = tail && tail.length + 1 + unit.length <= size ? `${tail} ${unit}` : unit;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
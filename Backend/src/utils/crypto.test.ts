@@ -0,0 +1,39 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { decryptSecret, encryptSecret } from './crypto';
+
+const original = { ...config.security };
+
+afterAll(() => {
+  Object.assign(config.security, original);
+});
+
+describe('encryptSecret / decryptSecret', () => {
+  // Runs first: the key is cached once resolved
+  it('refuses to work without MASTER_KEY in production', () => {
+    Object.assign(config.security, { masterKey: '', requireMasterKey: true });
+    expect(() => encryptSecret('secret')).toThrow(/MASTER_KEY/);
+  });
+
+  it('round-trips a secret', () => {
+    Object.assign(config.security, { masterKey: 'test-master-key', requireMasterKey: true });
+    const encrypted = encryptSecret('app-password');
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain('app-password');
+    expect(decryptSecret(encrypted)).toBe('app-password');
+  });
+
+  it('uses a fresh IV for every secret', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('rejects tampered or unrecognized payloads', () => {
+    const [prefix, iv, tag, ciphertext] = encryptSecret('app-password').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 1;
+
+    expect(() => decryptSecret([prefix, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+    expect(() => decryptSecret('plaintext')).toThrow(/Unrecognized/);
+  });
+});
@@ -0,0 +1,60 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { config } from '../config';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'v1';
+
+let cachedKey: Buffer | undefined;
+
+/**
+ * Resolves the 256-bit key used for secrets at rest. MASTER_KEY is required
+ * in production, since a key file next to the encrypted accounts protects
+ * nothing; elsewhere a random key is generated once and kept in DATA_DIR so
+ * local setups keep working across restarts.
+ */
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  let secret = config.security.masterKey;
+  if (!secret && config.security.requireMasterKey) {
+    throw new Error('MASTER_KEY must be set to store or read credentials when NODE_ENV=production');
+  }
+  if (!secret) {
+    const keyFile = path.join(config.storage.dataDir, 'master.key');
+    if (!existsSync(keyFile)) {
+      mkdirSync(config.storage.dataDir, { recursive: true });
+      writeFileSync(keyFile, randomBytes(32).toString('hex'), { mode: 0o600 });
+      console.warn(`  MASTER_KEY not set - generated ${keyFile}. MASTER_KEY is required in production.`);
+    }
+    secret = readFileSync(keyFile, 'utf8').trim();
+  }
+
+  cachedKey = createHash('sha256').update(secret).digest();
+  return cachedKey;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [PREFIX, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [prefix, iv, tag, ciphertext] = payload.split(':');
+  if (prefix !== PREFIX || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
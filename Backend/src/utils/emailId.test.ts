@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createEmailId } from './emailId';
+
+describe('createEmailId', () => {
+  const identity = { accountId: 'a1', folder: 'INBOX', uidValidity: '7', uid: 42, messageId: '<m1@example.com>' };
+
+  it('is stable for the same message', () => {
+    expect(createEmailId(identity)).toBe(createEmailId({ ...identity }));
+    expect(createEmailId(identity)).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('follows the folder, UIDVALIDITY and UID rather than the Message-ID', () => {
+    expect(createEmailId({ ...identity, messageId: '<other@example.com>' })).toBe(createEmailId(identity));
+    expect(createEmailId({ ...identity, uid: 43 })).not.toBe(createEmailId(identity));
+    expect(createEmailId({ ...identity, folder: 'Archive' })).not.toBe(createEmailId(identity));
+    expect(createEmailId({ ...identity, accountId: 'a2' })).not.toBe(createEmailId(identity));
+  });
+
+  it('falls back to the Message-ID without a UID', () => {
+    const withoutUid = { accountId: 'a1', folder: 'INBOX', messageId: '<m1@example.com>' };
+    expect(createEmailId(withoutUid)).toBe(createEmailId({ ...withoutUid, folder: 'Archive' }));
+    expect(createEmailId(withoutUid)).not.toBe(createEmailId({ ...withoutUid, messageId: '<m2@example.com>' }));
+  });
+
+  it('falls back to the date, sender and subject without a UID or Message-ID', () => {
+    const bare = { accountId: 'a1', folder: 'INBOX', date: '2024-05-01T10:00:00Z', from: 'ann@example.com', subject: 'Hello' };
+    expect(createEmailId(bare)).toBe(createEmailId({ ...bare, date: new Date('2024-05-01T10:00:00Z') }));
+    expect(createEmailId(bare)).not.toBe(createEmailId({ ...bare, subject: 'Hello again' }));
+    expect(createEmailId(bare)).not.toBe(createEmailId({ ...bare, from: 'bob@example.com' }));
+    expect(createEmailId(bare)).not.toBe(createEmailId({ ...bare, date: '2024-05-02T10:00:00Z' }));
+    expect(createEmailId({ ...bare, messageId: '' })).toBe(createEmailId(bare));
+  });
+});
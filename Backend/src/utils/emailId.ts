@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+
+export interface EmailIdentity {
+  accountId: string;
+  folder: string;
+  uidValidity?: string;
+  uid?: number;
+  messageId?: string;
+  // Fallback for messages with neither a UID nor a Message-ID
+  date?: Date | string;
+  from?: string;
+  subject?: string;
+}
+
+function contentKey({ date, from, subject }: EmailIdentity): string {
+  const time = date !== undefined ? new Date(date).getTime() : NaN;
+  return [isNaN(time) ? '' : String(time), from || '', subject || ''].join('\u0000');
+}
+
+/**
+ * Stable Elasticsearch document ID for an email. The IMAP (folder,
+ * UIDVALIDITY, UID) triple identifies a message uniquely within an account;
+ * when it isn't known the Message-ID header is used instead, and without
+ * that the date, sender and subject.
+ */
+export function createEmailId(identity: EmailIdentity): string {
+  const { accountId, folder, uidValidity, uid, messageId } = identity;
+
+  const key = uidValidity && uid
+    ? `${accountId}\u0000${folder}\u0000${uidValidity}\u0000${uid}`
+    : messageId
+      ? `${accountId}\u0000msgid\u0000${messageId}`
+      : `${accountId}\u0000content\u0000${contentKey(identity)}`;
+
+  return createHash('sha1').update(key).digest('hex');
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config';
+import { JsonStore } from './jsonStore';
+
+describe('JsonStore', () => {
+  const originalDataDir = config.storage.dataDir;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jsonstore-'));
+    config.storage.dataDir = dataDir;
+  });
+
+  afterEach(async () => {
+    config.storage.dataDir = originalDataDir;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('starts from the defaults without a file and persists updates', async () => {
+    const store = new JsonStore<{ items: string[] }>('items.json', { items: [] });
+    expect(await store.get()).toEqual({ items: [] });
+
+    await store.update(data => {
+      data.items.push('a');
+    });
+
+    const reloaded = new JsonStore<{ items: string[] }>('items.json', { items: [] });
+    expect(await reloaded.get()).toEqual({ items: ['a'] });
+  });
+
+  it('keeps concurrent updates made during the first load and a write', async () => {
+    const store = new JsonStore<{ count: number }>('count.json', { count: 0 });
+    await Promise.all(Array.from({ length: 20 }, () => store.update(data => {
+      data.count++;
+    })));
+
+    const saved = JSON.parse(await fs.readFile(path.join(dataDir, 'count.json'), 'utf8'));
+    expect(saved).toEqual({ count: 20 });
+  });
+
+  it('writes compact JSON covering the updates made during the write delay', async () => {
+    const filePath = path.join(dataDir, 'vectors.json');
+    const store = new JsonStore<{ ids: number[] }>('vectors.json', { ids: [] }, { pretty: false, writeDelayMs: 50 });
+
+    const first = store.update(data => {
+      data.ids.push(1);
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const second = store.update(data => {
+      data.ids.push(2);
+    });
+    await Promise.all([first, second]);
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{"ids":[1,2]}');
+  });
+
+  it('moves a corrupt file aside instead of overwriting it', async () => {
+    const filePath = path.join(dataDir, 'accounts.json');
+    await fs.writeFile(filePath, '{"accounts": [{"id": "a1"', 'utf8');
+
+    const store = new JsonStore<{ accounts: Array<{ id: string }> }>('accounts.json', { accounts: [] });
+    await store.update(data => {
+      data.accounts.push({ id: 'a2' });
+    });
+
+    const files = await fs.readdir(dataDir);
+    const corrupt = files.find(file => file.startsWith('accounts.json.corrupt-'));
+    expect(corrupt).toBeDefined();
+    expect(await fs.readFile(path.join(dataDir, corrupt!), 'utf8')).toBe('{"accounts": [{"id": "a1"');
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({ accounts: [{ id: 'a2' }] });
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+
+export interface JsonStoreOptions {
+  // Indented output for files people read by hand; off for large, busy files
+  pretty?: boolean;
+  // Wait this long before writing so a burst of updates shares one write
+  writeDelayMs?: number;
+}
+
+/**
+ * Small JSON file persistence used for local state that doesn't belong in
+ * Elasticsearch. Reads are served from memory after the first load, writes
+ * are serialized and replace the file atomically via rename. Updates made
+ * while a write is in progress share the next write. A file that isn't
+ * valid JSON is moved aside rather than overwritten.
+ */
+export class JsonStore<T> {
+  private filePath: string;
+  private defaults: T;
+  private pretty: boolean;
+  private writeDelayMs: number;
+  private data?: T;
+  private loading?: Promise<T>;
+  private writeChain: Promise<void> = Promise.resolve();
+  // The queued write that hasn't taken its snapshot yet
+  private pendingWrite?: Promise<void>;
+
+  constructor(fileName: string, defaults: T, options: JsonStoreOptions = {}) {
+    this.filePath = path.join(config.storage.dataDir, fileName);
+    this.defaults = defaults;
+    this.pretty = options.pretty ?? true;
+    this.writeDelayMs = options.writeDelayMs ?? 0;
+  }
+
+  async get(): Promise<T> {
+    if (this.data === undefined) {
+      // Concurrent first reads share one load so none of them resets the other's changes
+      this.loading = this.loading || this.load();
+      const loaded = await this.loading;
+      if (this.data === undefined) this.data = loaded;
+    }
+    return this.data as T;
+  }
+
+  private async load(): Promise<T> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return structuredClone(this.defaults);
+      // Retry the read next time instead of starting over from the defaults
+      this.loading = undefined;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(raw) as T;
+    } catch (error: any) {
+      // Keep the unreadable file so the next write can't destroy what's left of it
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, corruptPath);
+      console.error(` ${this.filePath} is not valid JSON (${error.message}); moved it to ${corruptPath} and started from defaults`);
+      return structuredClone(this.defaults);
+    }
+  }
+
+  async update(mutate: (data: T) => void | T): Promise<T> {
+    const current = await this.get();
+    const next = mutate(current);
+    if (next !== undefined) {
+      this.data = next;
+    }
+    await this.flush();
+    return this.data as T;
+  }
+
+  private flush(): Promise<void> {
+    if (this.pendingWrite) return this.pendingWrite;
+
+    const write = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        if (this.writeDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.writeDelayMs));
+        }
+
+        // The snapshot covers every update made up to now
+        this.pendingWrite = undefined;
+        const snapshot = JSON.stringify(this.data, null, this.pretty ? 2 : undefined);
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+
+    this.pendingWrite = write;
+    this.writeChain = write;
+    return write;
+  }
+}
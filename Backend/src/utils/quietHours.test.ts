@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { quietHoursEnd } from './quietHours';
+
+describe('quietHoursEnd', () => {
+  it('is undefined outside quiet hours', () => {
+    expect(quietHoursEnd({ start: '22:00', end: '07:00', timezone: 'UTC' }, new Date('2026-01-05T12:00:00Z'))).toBeUndefined();
+  });
+
+  it('ends the same day for a daytime period', () => {
+    const end = quietHoursEnd({ start: '12:00', end: '13:30', timezone: 'UTC' }, new Date('2026-01-05T12:10:45Z'));
+    expect(end?.toISOString()).toBe('2026-01-05T13:30:00.000Z');
+  });
+
+  it('wraps past midnight', () => {
+    const zone = { start: '22:00', end: '07:00', timezone: 'UTC' };
+    expect(quietHoursEnd(zone, new Date('2026-01-05T23:00:00Z'))?.toISOString()).toBe('2026-01-06T07:00:00.000Z');
+    expect(quietHoursEnd(zone, new Date('2026-01-06T06:59:00Z'))?.toISOString()).toBe('2026-01-06T07:00:00.000Z');
+    expect(quietHoursEnd(zone, new Date('2026-01-06T07:00:00Z'))).toBeUndefined();
+  });
+
+  it('uses the given time zone', () => {
+    // 21:30 UTC is 22:30 in Berlin in winter
+    const end = quietHoursEnd({ start: '22:00', end: '07:00', timezone: 'Europe/Berlin' }, new Date('2026-01-05T21:30:00Z'));
+    expect(end?.toISOString()).toBe('2026-01-06T06:00:00.000Z');
+  });
+
+  it('treats equal or invalid times as no quiet hours', () => {
+    const now = new Date('2026-01-05T12:00:00Z');
+    expect(quietHoursEnd({ start: '12:00', end: '12:00', timezone: 'UTC' }, now)).toBeUndefined();
+    expect(quietHoursEnd({ start: '25:00', end: '07:00', timezone: 'UTC' }, now)).toBeUndefined();
+  });
+});
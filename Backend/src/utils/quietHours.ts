@@ -0,0 +1,59 @@
+import { QuietHours } from '../types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function parseTime(value: string): number | undefined {
+  const match = TIME_PATTERN.exec(value);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : undefined;
+}
+
+export function isValidTime(value: unknown): boolean {
+  return typeof value === 'string' && parseTime(value) !== undefined;
+}
+
+export function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes since midnight in the given time zone (server time when omitted)
+function minutesOfDay(date: Date, timeZone?: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const hour = parseInt(parts.find(part => part.type === 'hour')!.value);
+  const minute = parseInt(parts.find(part => part.type === 'minute')!.value);
+  return hour * 60 + minute;
+}
+
+/**
+ * When the current quiet period ends, or undefined outside quiet hours.
+ * Periods may wrap past midnight (22:00-07:00); equal start and end means
+ * no quiet hours.
+ */
+export function quietHoursEnd(quietHours: QuietHours, now: Date = new Date()): Date | undefined {
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === undefined || end === undefined || start === end) return undefined;
+
+  const current = minutesOfDay(now, quietHours.timezone);
+  const quiet = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!quiet) return undefined;
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const endsAt = new Date(now.getTime() + minutesLeft * 60_000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { findPiiLeaks, findPlaceholders } from './replyChecks';
+
+describe('findPlaceholders', () => {
+  it('finds fill-in-the-blank markers once each', () => {
+    const reply = 'Hi [Recipient Name], see {{link}} and <insert date>. TODO: confirm. Regards, [Your Name] [Your Name]';
+    expect(findPlaceholders(reply)).toEqual(['[Recipient Name]', '[Your Name]', '{{link}}', '<insert date>', 'TODO']);
+  });
+
+  it('ignores ordinary brackets', () => {
+    expect(findPlaceholders('The plan (billed yearly) includes [3] seats.')).toEqual([]);
+  });
+});
+
+describe('findPiiLeaks', () => {
+  const sources = ['From: Jane <jane@acme.com>\nCall me on +1 (555) 123-4567.'];
+
+  it('allows details that appear in the sources', () => {
+    expect(findPiiLeaks('Thanks Jane, I will email jane@acme.com or call +1 555 123 4567.', sources)).toEqual([]);
+  });
+
+  it('flags email addresses and phone numbers the sources don\'t contain', () => {
+    expect(findPiiLeaks('Write to bob@other.com or call +44 20 7946 0958.', sources)).toEqual([
+      'email address bob@other.com',
+      'phone number +44 20 7946 0958'
+    ]);
+  });
+
+  it('flags valid card numbers but not dates or other digit runs', () => {
+    const leaks = findPiiLeaks('Card 4111 1111 1111 1111, order 1234 5678 9012 3456, due 2026-01-03.', sources);
+    expect(leaks).toEqual(['card number ending 1111']);
+  });
+
+  it('flags IBANs', () => {
+    expect(findPiiLeaks('Pay to DE89 3704 0044 0532 0130 00.', sources)).toEqual(['IBAN DE89...']);
+  });
+});
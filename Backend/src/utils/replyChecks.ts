@@ -0,0 +1,79 @@
+import { ReplyLength } from '../types';
+
+// Fill-in-the-blank markers models leave when they lack a detail
+const PLACEHOLDER_PATTERNS = [
+  /\[[^\]\n]{0,40}\b(?:your|insert|name|company|date|time|link|recipient|title|phone|email)\b[^\]\n]{0,40}\]/gi,
+  /\{\{[^}\n]{1,40}\}\}/g,
+  /<(?:your|insert)\b[^>\n]{0,40}>/gi,
+  /\b(?:TODO|TBD|XXX)\b/g
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/g;
+const CARD_PATTERN = /\b(?:\d[ -]?){13,19}\b/g;
+const DATE_PATTERN = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})$/;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+
+// Words a reply of each length may run to before it's flagged
+export const LENGTH_WORD_LIMITS: Record<ReplyLength, number> = {
+  short: 120,
+  medium: 250,
+  long: 500
+};
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+export function findPlaceholders(text: string): string[] {
+  const found = PLACEHOLDER_PATTERNS.flatMap(pattern => text.match(pattern) || []);
+  return [...new Set(found)];
+}
+
+/**
+ * Email addresses, phone numbers, card numbers and IBANs in the reply that
+ * don't appear in any of the sources (the email, its thread, the knowledge
+ * base context), i.e. that the model made up or pulled from elsewhere.
+ */
+export function findPiiLeaks(text: string, sources: string[]): string[] {
+  const source = sources.join('\n');
+  const sourceLower = source.toLowerCase();
+  const sourceDigits = new Set([...source.match(PHONE_PATTERN) || [], ...source.match(CARD_PATTERN) || []].map(digitsOf));
+  const sourceCompact = source.replace(/\s/g, '');
+  const leaks: string[] = [];
+
+  for (const address of text.match(EMAIL_PATTERN) || []) {
+    if (!sourceLower.includes(address.toLowerCase())) leaks.push(`email address ${address}`);
+  }
+  for (const card of text.match(CARD_PATTERN) || []) {
+    const digits = digitsOf(card);
+    if (luhnValid(digits) && !sourceDigits.has(digits)) leaks.push(`card number ending ${digits.slice(-4)}`);
+  }
+  for (const phone of text.match(PHONE_PATTERN) || []) {
+    const digits = digitsOf(phone);
+    const isCard = digits.length >= 13 && luhnValid(digits);
+    if (digits.length >= 8 && digits.length <= 15 && !isCard && !DATE_PATTERN.test(phone.trim()) && !sourceDigits.has(digits)) {
+      leaks.push(`phone number ${phone.trim()}`);
+    }
+  }
+  for (const iban of text.match(IBAN_PATTERN) || []) {
+    if (!sourceCompact.includes(iban.replace(/\s/g, ''))) leaks.push(`IBAN ${iban.slice(0, 4)}...`);
+  }
+
+  return [...new Set(leaks)];
+}
+
+export function countWords(text: string): number {
+  return (text.match(/\S+/g) || []).length;
+}
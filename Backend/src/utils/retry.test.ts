@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isRetryableError, retryAfterMs } from './retry';
+
+describe('isRetryableError', () => {
+  it('retries network errors, timeouts, conflicts, rate limits and server errors', () => {
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    for (const status of [408, 409, 429, 500, 503]) {
+      expect(isRetryableError({ status })).toBe(true);
+    }
+  });
+
+  it('gives up on other client errors', () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ response: { status: 401 } })).toBe(false);
+    expect(isRetryableError({ statusCode: 404 })).toBe(false);
+  });
+});
+
+describe('retryAfterMs', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads seconds from axios-style headers', () => {
+    expect(retryAfterMs({ response: { headers: { 'retry-after': '30' } } })).toBe(30_000);
+  });
+
+  it('reads an HTTP date from fetch-style headers', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T12:00:00Z'));
+
+    const headers = new Headers({ 'retry-after': 'Mon, 05 Jan 2026 12:01:00 GMT' });
+    expect(retryAfterMs({ headers })).toBe(60_000);
+  });
+
+  it('is undefined without a usable header', () => {
+    expect(retryAfterMs(new Error('boom'))).toBeUndefined();
+    expect(retryAfterMs({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+  });
+});
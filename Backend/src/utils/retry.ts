@@ -0,0 +1,37 @@
+// HTTP status of a failed API call: OpenAI SDK errors carry it directly,
+// axios errors on the response
+function errorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.response?.status ?? error?.statusCode;
+  return typeof status === 'number' ? status : undefined;
+}
+
+export function isRateLimitError(error: any): boolean {
+  return errorStatus(error) === 429;
+}
+
+/**
+ * Whether trying again later might succeed. Network errors and timeouts
+ * have no status and are retried; client errors other than timeouts,
+ * conflicts and rate limits are not.
+ */
+export function isRetryableError(error: any): boolean {
+  const status = errorStatus(error);
+  if (status === undefined) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * The server's Retry-After in milliseconds, if it sent one (seconds or an
+ * HTTP date).
+ */
+export function retryAfterMs(error: any): number | undefined {
+  const headers = error?.headers || error?.response?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -0,0 +1,9 @@
+/**
+ * Fills {{name}} placeholders. Unknown names render as empty strings so a
+ * typo in a template doesn't leak braces into a message.
+ */
+export function renderTemplate(template: string, fields: Record<string, string | number | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    fields[name] !== undefined ? String(fields[name]) : ''
+  );
+}
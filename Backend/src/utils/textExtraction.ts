@@ -0,0 +1,134 @@
+import path from 'path';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+
+type DocumentKind = 'text' | 'html' | 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'opendocument';
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  '.txt': 'text',
+  '.csv': 'text',
+  '.md': 'text',
+  '.json': 'text',
+  '.log': 'text',
+  '.htm': 'html',
+  '.html': 'html',
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.pptx': 'pptx',
+  '.xlsx': 'xlsx',
+  '.odt': 'opendocument',
+  '.ods': 'opendocument',
+  '.odp': 'opendocument'
+};
+
+const CONTENT_TYPE_KINDS: Record<string, DocumentKind> = {
+  'text/html': 'html',
+  'application/json': 'text',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.oasis.opendocument.text': 'opendocument',
+  'application/vnd.oasis.opendocument.spreadsheet': 'opendocument',
+  'application/vnd.oasis.opendocument.presentation': 'opendocument'
+};
+
+// Parts of the zip containers that hold the user-visible text
+const ZIP_TEXT_PARTS: Record<'pptx' | 'xlsx' | 'opendocument', RegExp> = {
+  pptx: /^ppt\/slides\/slide\d+\.xml$/,
+  xlsx: /^xl\/sharedStrings\.xml$/,
+  opendocument: /^content\.xml$/
+};
+
+function detectKind(contentType: string, filename: string): DocumentKind | null {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (CONTENT_TYPE_KINDS[type]) return CONTENT_TYPE_KINDS[type];
+  if (type.startsWith('text/')) return 'text';
+
+  // Clients often send application/octet-stream, so fall back to the extension
+  return EXTENSION_KINDS[path.extname(filename || '').toLowerCase()] || null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function stripMarkup(markup: string): string {
+  return decodeEntities(
+    markup
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  );
+}
+
+async function extractZipText(content: Buffer, parts: RegExp): Promise<string> {
+  const zip = await JSZip.loadAsync(content);
+  const names = Object.keys(zip.files)
+    .filter(name => parts.test(name))
+    // slide10 must come after slide9
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const texts: string[] = [];
+  for (const name of names) {
+    texts.push(stripMarkup(await zip.files[name].async('string')));
+  }
+  return texts.join('\n');
+}
+
+async function extractPdfText(content: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: new Uint8Array(content) });
+  try {
+    const result = await parser.getText({ pageJoiner: '' });
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Extracts searchable text from an attachment. Returns null for formats we
+ * can't read (images, archives, ...); parsing errors are left to the caller.
+ */
+export async function extractText(
+  content: Buffer,
+  contentType: string,
+  filename: string,
+  maxLength: number
+): Promise<string | null> {
+  const kind = detectKind(contentType, filename);
+  let text: string;
+
+  switch (kind) {
+    case 'text':
+      text = content.toString('utf8');
+      break;
+    case 'html':
+      text = stripMarkup(content.toString('utf8'));
+      break;
+    case 'pdf':
+      text = await extractPdfText(content);
+      break;
+    case 'docx':
+      text = (await mammoth.extractRawText({ buffer: content })).value;
+      break;
+    case 'pptx':
+    case 'xlsx':
+    case 'opendocument':
+      text = await extractZipText(content, ZIP_TEXT_PARTS[kind]);
+      break;
+    default:
+      return null;
+  }
+
+  const normalized = text.replace(/[ \t\r\f\v]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+  return normalized.slice(0, maxLength);
+}
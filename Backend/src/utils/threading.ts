@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+
+// Reply/forward prefixes in the languages our users' correspondents commonly use
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|rv|tr|antw|odp)(\[\d+\])?\s*:\s*)+/i;
+const MESSAGE_ID = /<[^<>\s]+>/g;
+const ADDRESS = /[^\s<>"',;:()]+@[^\s<>"',;:()]+/g;
+
+export function normalizeSubject(subject: string): string {
+  return (subject || '').replace(SUBJECT_PREFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function isReplySubject(subject: string): boolean {
+  return SUBJECT_PREFIX.test(subject || '');
+}
+
+/**
+ * Splits a References/In-Reply-To header into Message-IDs. Values without
+ * angle brackets (seen from some mailers) are kept as-is.
+ */
+export function parseMessageIds(value?: string | string[]): string[] {
+  if (!value) return [];
+  const values = Array.isArray(value) ? value : [value];
+  const ids: string[] = [];
+
+  for (const entry of values) {
+    const matches = entry.match(MESSAGE_ID);
+    const found = matches || entry.split(/\s+/).filter(Boolean);
+    for (const id of found) {
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+export function extractAddresses(values: Array<string | undefined>): string[] {
+  const addresses = new Set<string>();
+  for (const value of values) {
+    for (const address of (value || '').match(ADDRESS) || []) {
+      addresses.add(address.toLowerCase());
+    }
+  }
+  return [...addresses];
+}
+
+// Whether the sender's domain is one of `domains` or a subdomain of one
+export function matchesSenderDomain(from: string, domains: string[]): boolean {
+  const domain = (extractAddresses([from])[0] || '').split('@')[1] || '';
+  return domains.some(entry => {
+    const wanted = entry.toLowerCase().replace(/^@/, '');
+    return domain === wanted || domain.endsWith(`.${wanted}`);
+  });
+}
+
+/**
+ * Thread IDs are derived from the conversation's root Message-ID, so a reply
+ * that arrives before its root still lands in the same thread.
+ */
+export function createThreadId(rootMessageId: string): string {
+  return createHash('sha1').update(`thread\u0000${rootMessageId}`).digest('hex');
+}
@@ -0,0 +1,48 @@
+import { PeerCertificate } from 'tls';
+import { describe, expect, it } from 'vitest';
+import { buildTlsOptions, normalizeFingerprint } from './tls';
+
+const FINGERPRINT = 'AB:CD:EF:01:23:45:67:89:AB:CD:EF:01:23:45:67:89:AB:CD:EF:01:23:45:67:89:AB:CD:EF:01:23:45:67:89';
+
+function certificate(fingerprint256: string): PeerCertificate {
+  return {
+    subject: { CN: 'imap.example.com' },
+    subjectaltname: 'DNS:imap.example.com',
+    fingerprint256
+  } as PeerCertificate;
+}
+
+describe('buildTlsOptions', () => {
+  it('validates certificates by default', () => {
+    expect(buildTlsOptions()).toEqual({ rejectUnauthorized: true });
+  });
+
+  it('passes a custom CA through and can disable validation', () => {
+    expect(buildTlsOptions({ ca: 'PEM' })).toEqual({ rejectUnauthorized: true, ca: 'PEM' });
+    expect(buildTlsOptions({ allowInvalidCertificates: true })).toEqual({ rejectUnauthorized: false });
+  });
+
+  it('accepts only the pinned fingerprint, in any notation', () => {
+    const { checkServerIdentity } = buildTlsOptions({ fingerprint: FINGERPRINT.replace(/:/g, '').toLowerCase() });
+
+    expect(checkServerIdentity!('imap.example.com', certificate(FINGERPRINT))).toBeUndefined();
+
+    const error = checkServerIdentity!('imap.example.com', certificate(FINGERPRINT.replace('AB', '00'))) as NodeJS.ErrnoException;
+    expect(error.code).toBe('CERT_FINGERPRINT_MISMATCH');
+  });
+
+  it('still checks the host name of a pinned certificate', () => {
+    const { checkServerIdentity } = buildTlsOptions({ fingerprint: FINGERPRINT });
+    expect(checkServerIdentity!('mail.other.com', certificate(FINGERPRINT))).toBeInstanceOf(Error);
+  });
+
+  it('refuses a pin combined with disabled validation', () => {
+    expect(() => buildTlsOptions({ fingerprint: FINGERPRINT, allowInvalidCertificates: true })).toThrow(/allowInvalidCertificates/);
+  });
+});
+
+describe('normalizeFingerprint', () => {
+  it('strips separators and upper-cases', () => {
+    expect(normalizeFingerprint('ab:cd ef')).toBe('ABCDEF');
+  });
+});
@@ -0,0 +1,94 @@
+import { ConnectionOptions, PeerCertificate, checkServerIdentity } from 'tls';
+import { ConnectionSettings } from '../types';
+
+const CERTIFICATE_ERROR_CODES = new Set([
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_UNTRUSTED',
+  'CERT_FINGERPRINT_MISMATCH',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'ERR_TLS_CERT_ALTNAME_INVALID'
+]);
+
+type TlsClientSettings = Pick<ConnectionOptions, 'rejectUnauthorized' | 'ca' | 'checkServerIdentity'>;
+
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[^a-fA-F0-9]/g, '').toUpperCase();
+}
+
+// Node skips checkServerIdentity once validation is off, so a pin would silently not apply
+export function conflictingTlsSettings(connection: ConnectionSettings): string | null {
+  return connection.fingerprint && connection.allowInvalidCertificates
+    ? 'connection.fingerprint cannot be combined with allowInvalidCertificates; use ca for self-signed servers'
+    : null;
+}
+
+/**
+ * TLS options shared by IMAP and SMTP clients. Certificates are validated
+ * unless the account explicitly opts out; a pinned SHA-256 fingerprint is
+ * checked on top of normal validation (use `ca` for self-signed servers).
+ * Throws when a pin is combined with disabled validation.
+ */
+export function buildTlsOptions(connection: ConnectionSettings = {}): TlsClientSettings {
+  const conflict = conflictingTlsSettings(connection);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
+  const options: TlsClientSettings = {
+    rejectUnauthorized: !connection.allowInvalidCertificates
+  };
+
+  if (connection.ca) {
+    options.ca = connection.ca;
+  }
+
+  if (connection.fingerprint) {
+    const pinned = normalizeFingerprint(connection.fingerprint);
+
+    options.checkServerIdentity = (host: string, cert: PeerCertificate) => {
+      const hostError = checkServerIdentity(host, cert);
+      if (hostError) return hostError;
+
+      if (normalizeFingerprint(cert.fingerprint256 || '') !== pinned) {
+        const error: NodeJS.ErrnoException = new Error(
+          `Certificate fingerprint ${cert.fingerprint256} does not match the pinned fingerprint`
+        );
+        error.code = 'CERT_FINGERPRINT_MISMATCH';
+        return error;
+      }
+      return undefined;
+    };
+  }
+
+  return options;
+}
+
+/**
+ * Turns low-level connection failures into a message a user can act on,
+ * flagging certificate problems separately from auth or network errors.
+ */
+export function describeConnectionError(error: any): { message: string; certificateError?: string } {
+  const code: string | undefined = error?.code || error?.cause?.code;
+
+  if (code && CERTIFICATE_ERROR_CODES.has(code)) {
+    const hint = code === 'CERT_FINGERPRINT_MISMATCH'
+      ? 'Update connection.fingerprint if the server certificate was rotated.'
+      : 'Provide the server\'s CA in connection.ca or fix the certificate on the server.';
+
+    return {
+      message: `TLS certificate rejected (${code}): ${error.message}. ${hint}`,
+      certificateError: code
+    };
+  }
+
+  if (error?.authenticationFailed) {
+    return { message: `Authentication failed: ${error.responseText || error.message}` };
+  }
+
+  return { message: error?.message || String(error) };
+}